@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HttpResponse, makeHttpRequest } from "./ado-http.js";
+import {
+  AdoRequestError,
+  MAX_RETRIES,
+  adoListAll,
+  adoRequest,
+  getErrorKind,
+  getRetryAfterMs,
+} from "./ado-client.js";
+import {
+  FakeAdoServer,
+  createFakeAdoState,
+  startFakeAdoServer,
+} from "./fake-ado.js";
+
+vi.mock("./ado-http.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ado-http.js")>()),
+  makeHttpRequest: vi.fn(),
+}));
+
+const config = {
+  token: "token",
+  org: "org",
+  project: "project",
+  repo: "repo",
+  prId: "42",
+};
+
+const url =
+  "https://dev.azure.com/org/project/_apis/git/repositories/repo/pullRequests/42/threads?api-version=7.1";
+
+function response(
+  statusCode: number,
+  body: unknown = {},
+  headers: Record<string, string> = {}
+): HttpResponse {
+  return {
+    statusCode,
+    statusMessage: statusCode < 300 ? "OK" : "Error",
+    headers,
+    body: JSON.stringify(body),
+  };
+}
+
+// Runs the backoff and throttling timers until the request settles
+async function settle<T>(request: Promise<T>): Promise<T> {
+  const result = request.then(
+    (value) => ({ value }),
+    (error) => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  const settled = await result;
+  if ("error" in settled) {
+    throw settled.error;
+  }
+  return settled.value;
+}
+
+describe("ado-client", () => {
+  describe("getErrorKind", () => {
+    it("should tell auth, not found and throttling failures apart", () => {
+      expect(getErrorKind(401)).toBe("auth");
+      expect(getErrorKind(403)).toBe("auth");
+      expect(getErrorKind(404)).toBe("not-found");
+      expect(getErrorKind(429)).toBe("throttled");
+      expect(getErrorKind(503)).toBe("server");
+      expect(getErrorKind(400)).toBe("client");
+    });
+  });
+
+  describe("getRetryAfterMs", () => {
+    it("should read Retry-After and an exhausted rate limit", () => {
+      expect(getRetryAfterMs({ "retry-after": "3" })).toBe(3000);
+      expect(
+        getRetryAfterMs(
+          { "retry-after": "Thu, 01 Jan 1970 00:00:10 GMT" },
+          4000
+        )
+      ).toBe(6000);
+      expect(
+        getRetryAfterMs(
+          { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "20" },
+          5000
+        )
+      ).toBe(15_000);
+      expect(
+        getRetryAfterMs({ "x-ratelimit-remaining": "10" }, 5000)
+      ).toBeNull();
+    });
+  });
+
+  describe("adoRequest", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(makeHttpRequest).mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should send JSON and parse the response", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValue(response(200, { id: 7 }));
+
+      const thread = await settle(
+        adoRequest(config, url, {
+          action: "create thread",
+          method: "POST",
+          body: { status: 1 },
+        })
+      );
+
+      expect(thread).toEqual({ id: 7 });
+      const [, request] = vi.mocked(makeHttpRequest).mock.calls[0];
+      expect(request?.body).toBe('{"status":1}');
+      expect(request?.headers?.["Content-Type"]).toBe("application/json");
+      expect(request?.timeoutMs).toBeGreaterThan(0);
+    });
+
+    it("should retry server errors and timeouts with backoff", async () => {
+      vi.mocked(makeHttpRequest)
+        .mockResolvedValueOnce(response(503))
+        .mockRejectedValueOnce(new Error("TimeoutError"))
+        .mockResolvedValueOnce(response(200, { value: [] }));
+
+      await settle(adoRequest(config, url, { action: "list threads" }));
+
+      expect(makeHttpRequest).toHaveBeenCalledTimes(3);
+    });
+
+    it("should wait for Retry-After before retrying a throttled request", async () => {
+      vi.mocked(makeHttpRequest)
+        .mockResolvedValueOnce(response(429, {}, { "retry-after": "5" }))
+        .mockResolvedValueOnce(response(200));
+
+      const request = adoRequest(config, url, {
+        action: "create thread",
+        method: "POST",
+        body: {},
+      });
+      await vi.advanceTimersByTimeAsync(4000);
+      expect(makeHttpRequest).toHaveBeenCalledTimes(1);
+
+      await settle(request);
+      expect(makeHttpRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry a POST that may have been processed", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValue(response(500));
+
+      await expect(
+        settle(
+          adoRequest(config, url, { action: "create thread", method: "POST" })
+        )
+      ).rejects.toThrow("Failed to create thread: 500 Error");
+      expect(makeHttpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw typed errors once retries are used up", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValue(response(404));
+      const notFound = (await settle(
+        adoRequest(config, url, { action: "get thread" })
+      ).catch((error) => error)) as AdoRequestError;
+      expect(notFound).toBeInstanceOf(AdoRequestError);
+      expect(notFound.kind).toBe("not-found");
+      expect(makeHttpRequest).toHaveBeenCalledTimes(1);
+
+      vi.mocked(makeHttpRequest).mockReset();
+      vi.mocked(makeHttpRequest).mockResolvedValue(response(502));
+      const server = (await settle(
+        adoRequest(config, url, { action: "get thread" })
+      ).catch((error) => error)) as AdoRequestError;
+      expect(server.kind).toBe("server");
+      expect(makeHttpRequest).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+    });
+  });
+
+  describe("adoListAll", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(makeHttpRequest).mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should follow continuation tokens", async () => {
+      vi.mocked(makeHttpRequest)
+        .mockResolvedValueOnce(
+          response(
+            200,
+            { value: [{ id: 1 }] },
+            { "x-ms-continuationtoken": "page 2" }
+          )
+        )
+        .mockResolvedValueOnce(response(200, { value: [{ id: 2 }] }));
+
+      const threads = await settle(
+        adoListAll(config, url, { action: "list threads" })
+      );
+
+      expect(threads).toEqual([{ id: 1 }, { id: 2 }]);
+      const [nextUrl] = vi.mocked(makeHttpRequest).mock.calls[1];
+      expect(nextUrl).toContain("api-version=7.1&continuationToken=page+2");
+    });
+  });
+
+  describe("sign-in page", () => {
+    let fake: FakeAdoServer;
+    let threadsUrl: string;
+
+    beforeEach(async () => {
+      const { makeHttpRequest: actual } =
+        await vi.importActual<typeof import("./ado-http.js")>("./ado-http.js");
+      vi.mocked(makeHttpRequest).mockReset().mockImplementation(actual);
+      fake = await startFakeAdoServer(
+        createFakeAdoState({
+          pullRequests: [{ pullRequestId: 42 }],
+          signInPage: true,
+        })
+      );
+      threadsUrl = `${fake.url}/Web%20App/_apis/git/repositories/web/pullRequests/42/threads?api-version=7.1`;
+      // Only the client's waits are faked, the sockets need the real timers
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await fake.close();
+    });
+
+    it("should report the sign-in page of an invalid token as an auth error", async () => {
+      for (const request of [
+        () => adoRequest(config, threadsUrl, { action: "get threads" }),
+        () => adoListAll(config, threadsUrl, { action: "list threads" }),
+      ]) {
+        const error = await settle(request()).catch((caught) => caught);
+        expect(error).toBeInstanceOf(AdoRequestError);
+        expect(error).toMatchObject({ kind: "auth", statusCode: 203 });
+      }
+    });
+
+    it("should read JSON again once the token is accepted", async () => {
+      fake.state.signInPage = false;
+
+      await expect(
+        settle(adoListAll(config, threadsUrl, { action: "list threads" }))
+      ).resolves.toEqual([]);
+    });
+  });
+});
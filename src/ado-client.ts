@@ -0,0 +1,243 @@
+import {
+  AzureConfig,
+  HttpResponse,
+  getAuthorizationHeader,
+  isSuccess,
+  makeHttpRequest,
+} from "./ado-http.js";
+
+// Requests that take longer than this are aborted and retried
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Retries after the first attempt
+export const MAX_RETRIES = 4;
+
+const BASE_DELAY_MS = 1000;
+
+// Longest wait for a backoff or a Retry-After header
+const MAX_DELAY_MS = 60_000;
+
+const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+
+// List APIs return the next page's token in this header
+const CONTINUATION_HEADER = "x-ms-continuationtoken";
+
+export type AdoErrorKind =
+  "auth" | "not-found" | "throttled" | "server" | "client" | "network";
+
+/**
+ * A failed Azure DevOps request, after retries
+ */
+export class AdoRequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: AdoErrorKind,
+    readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = "AdoRequestError";
+  }
+}
+
+export interface AdoRequestOptions {
+  // What the request does, for error messages, e.g. "set PR status"
+  action: string;
+  method?: string;
+  // Sent as JSON
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+// Requests wait until this time after Azure DevOps asked to slow down
+let throttledUntil = 0;
+
+/**
+ * Classify a failed status code
+ */
+export function getErrorKind(statusCode: number): AdoErrorKind {
+  if (statusCode === 401 || statusCode === 403) {
+    return "auth";
+  }
+  if (statusCode === 404) {
+    return "not-found";
+  }
+  if (statusCode === 429) {
+    return "throttled";
+  }
+  return statusCode >= 500 ? "server" : "client";
+}
+
+/**
+ * Get the delay Azure DevOps asks for with Retry-After, or with
+ * X-RateLimit-Reset once the rate limit is used up
+ */
+export function getRetryAfterMs(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): number | null {
+  const retryAfter = headers["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (headers["x-ratelimit-remaining"] === "0" && reset) {
+    return Math.max(0, reset * 1000 - now);
+  }
+  return null;
+}
+
+/**
+ * Exponential backoff for the given retry, starting at one second
+ */
+export function getBackoffMs(attempt: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * POST creates threads and comments, so it is only retried when the request
+ * was rejected before being processed
+ */
+function isRetryable(method: string, statusCode?: number): boolean {
+  if (method === "POST") {
+    return statusCode === 429 || statusCode === 503;
+  }
+  return (
+    statusCode === undefined || RETRYABLE_STATUS_CODES.includes(statusCode)
+  );
+}
+
+/**
+ * Azure DevOps answers requests with an expired or invalid token with a 203
+ * and its HTML sign-in page instead of a 401
+ */
+function isSignInPage(response: HttpResponse): boolean {
+  const contentType = response.headers["content-type"];
+  return (
+    response.statusCode === 203 ||
+    (Boolean(contentType) && !/[/+]json\b/i.test(contentType))
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function sendRequest(
+  config: AzureConfig,
+  url: string,
+  options: AdoRequestOptions
+): Promise<HttpResponse> {
+  const method = options.method || "GET";
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const throttleMs = throttledUntil - Date.now();
+    if (throttleMs > 0) {
+      await sleep(throttleMs);
+    }
+
+    let response: HttpResponse;
+    try {
+      response = await makeHttpRequest(url, {
+        method,
+        headers: {
+          ...headers,
+          Authorization: await getAuthorizationHeader(config),
+        },
+        body:
+          options.body === undefined ? undefined : JSON.stringify(options.body),
+        timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      });
+    } catch (error) {
+      if (attempt < MAX_RETRIES && isRetryable(method)) {
+        await sleep(getBackoffMs(attempt));
+        continue;
+      }
+      throw new AdoRequestError(
+        `Failed to ${options.action}: ${error}`,
+        "network"
+      );
+    }
+
+    // Azure DevOps also sends Retry-After on successful but delayed requests
+    const retryAfterMs = getRetryAfterMs(response.headers);
+    if (retryAfterMs !== null) {
+      throttledUntil = Date.now() + Math.min(retryAfterMs, MAX_DELAY_MS);
+    }
+
+    if (isSuccess(response) && isSignInPage(response)) {
+      throw new AdoRequestError(
+        `Failed to ${options.action}: Azure DevOps answered with a sign-in page instead of JSON, check that the token is valid`,
+        "auth",
+        response.statusCode
+      );
+    }
+    if (isSuccess(response)) {
+      return response;
+    }
+
+    if (attempt < MAX_RETRIES && isRetryable(method, response.statusCode)) {
+      if (retryAfterMs === null) {
+        await sleep(getBackoffMs(attempt));
+      }
+      continue;
+    }
+
+    throw new AdoRequestError(
+      `Failed to ${options.action}: ${response.statusCode} ${response.statusMessage}`,
+      getErrorKind(response.statusCode),
+      response.statusCode
+    );
+  }
+}
+
+/**
+ * Send a request to the Azure DevOps REST API and parse the JSON response
+ * Retries timeouts, throttling and server errors; throws AdoRequestError
+ */
+export async function adoRequest<T = unknown>(
+  config: AzureConfig,
+  url: string,
+  options: AdoRequestOptions
+): Promise<T> {
+  const response = await sendRequest(config, url, options);
+  return (response.body ? JSON.parse(response.body) : undefined) as T;
+}
+
+/**
+ * Get every item of a list API, following continuation tokens
+ */
+export async function adoListAll<T>(
+  config: AzureConfig,
+  url: string,
+  options: AdoRequestOptions
+): Promise<T[]> {
+  const items: T[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    let pageUrl = url;
+    if (continuationToken) {
+      const next = new URL(url);
+      next.searchParams.set("continuationToken", continuationToken);
+      pageUrl = next.toString();
+    }
+
+    const response = await sendRequest(config, pageUrl, options);
+    items.push(...(JSON.parse(response.body).value || []));
+    continuationToken = response.headers[CONTINUATION_HEADER];
+  } while (continuationToken);
+
+  return items;
+}
@@ -0,0 +1,133 @@
+import type { AccessToken, AzureCredential, TokenType } from "./credentials.js";
+import { getCloudCollectionUrl } from "./collection-url.js";
+
+export interface AzureConfig {
+  token: string;
+  org: string;
+  project: string;
+  repo: string;
+  prId: string;
+  // Needed for Azure DevOps Server and visualstudio.com; defaults to dev.azure.com/{org}
+  collectionUrl?: string;
+  // Where API requests go instead, e.g. a fake server or a recording proxy
+  apiBaseUrl?: string;
+  // Azure Pipelines job tokens and Entra tokens are bearer tokens, not PATs
+  tokenType?: TokenType;
+  // Refreshes the token when it expires during a long review
+  credential?: AzureCredential;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  statusMessage: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Get the collection URL every API and web URL of the config is built on
+ */
+export function getCollectionUrl(
+  config: Pick<AzureConfig, "org" | "collectionUrl">
+): string {
+  return config.collectionUrl || getCloudCollectionUrl(config.org);
+}
+
+/**
+ * Get the base URL of API requests; web links keep the collection URL
+ */
+export function getApiBaseUrl(
+  config: Pick<AzureConfig, "org" | "collectionUrl" | "apiBaseUrl">
+): string {
+  return config.apiBaseUrl || getCollectionUrl(config);
+}
+
+/**
+ * Build the REST API base URL for the configured pull request
+ */
+export function getPullRequestApiUrl(config: AzureConfig): string {
+  const { project, repo, prId } = config;
+  return `${getApiBaseUrl(config)}/${project}/_apis/git/repositories/${repo}/pullRequests/${prId}`;
+}
+
+/**
+ * Build the web URL of the configured pull request
+ */
+export function getPullRequestWebUrl(config: AzureConfig): string {
+  const { project, repo, prId } = config;
+  return `${getCollectionUrl(config)}/${project}/_git/${repo}/pullrequest/${prId}`;
+}
+
+/**
+ * Build the web URL of a pull request discussion thread
+ */
+export function getThreadWebUrl(config: AzureConfig, threadId: number): string {
+  return `${getPullRequestWebUrl(config)}?discussionId=${threadId}`;
+}
+
+/**
+ * Get the current token of the config, refreshed by its credential if any
+ */
+export async function getAccessToken(
+  config: AzureConfig
+): Promise<AccessToken> {
+  if (config.credential) {
+    return config.credential.getToken();
+  }
+  return { token: config.token, tokenType: config.tokenType || "pat" };
+}
+
+/**
+ * Build the Authorization header value for the configured token
+ */
+export async function getAuthorizationHeader(
+  config: AzureConfig
+): Promise<string> {
+  const { token, tokenType } = await getAccessToken(config);
+  return tokenType === "bearer"
+    ? `Bearer ${token}`
+    : `Basic ${Buffer.from(`:${token}`).toString("base64")}`;
+}
+
+/**
+ * Check whether a response has a 2xx status code
+ */
+export function isSuccess(response: HttpResponse): boolean {
+  return response.statusCode >= 200 && response.statusCode < 300;
+}
+
+export async function makeHttpRequest(
+  url: string,
+  options: {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+    timeoutMs?: number;
+  } = {}
+): Promise<HttpResponse> {
+  try {
+    const fetchOptions: RequestInit = {
+      method: options.method || "GET",
+      headers: options.headers || {},
+    };
+
+    if (options.body) {
+      fetchOptions.body = options.body;
+    }
+    if (options.timeoutMs) {
+      fetchOptions.signal = AbortSignal.timeout(options.timeoutMs);
+    }
+
+    const response = await fetch(url, fetchOptions);
+    const body = await response.text();
+
+    return {
+      statusCode: response.status,
+      statusMessage: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: body,
+    };
+  } catch (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AzureConfig } from "./ado-http.js";
+import {
+  createConnection,
+  getAuthenticatedUserId,
+  setReviewerVote,
+} from "./ado.js";
+import {
+  PlannedWrite,
+  readRecording,
+  startDryRunProxy,
+  startRecordingProxy,
+  startReplayServer,
+} from "./ado-recording.js";
+import { createFakeAdoState, startFakeAdoServer } from "./fake-ado.js";
+import {
+  createInlineThread,
+  listPullRequestThreads,
+} from "./inline-threads.js";
+
+const config: AzureConfig = {
+  token: "secret-token",
+  org: "contoso",
+  project: "Web App",
+  repo: "web",
+  prId: "42",
+};
+
+const thread = {
+  id: 1,
+  status: "active",
+  comments: [
+    {
+      id: 1,
+      parentCommentId: 0,
+      content: "First",
+      commentType: "text",
+      author: { id: "author-id", displayName: "Author" },
+    },
+  ],
+};
+
+describe("ado-recording", () => {
+  let tmpDir: string;
+  const cleanup: (() => Promise<void>)[] = [];
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-review-recording-"));
+  });
+
+  afterEach(async () => {
+    await Promise.all(cleanup.splice(0).map((close) => close()));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should replay recorded interactions offline", async () => {
+    const fake = await startFakeAdoServer(
+      createFakeAdoState({
+        pullRequests: [{ pullRequestId: 42, threads: [thread] }],
+      })
+    );
+    const file = path.join(tmpDir, "recording.json");
+
+    const proxy = await startRecordingProxy(fake.url, file);
+    cleanup.push(proxy.close);
+    const recorded = await listPullRequestThreads({
+      ...config,
+      apiBaseUrl: proxy.url,
+    });
+    const userId = await getAuthenticatedUserId(
+      createConnection(proxy.url, "secret-token")
+    );
+    await fake.close();
+
+    const recording = readRecording(file);
+    expect(recording.collectionPath).toBe("/contoso");
+    expect(fs.readFileSync(file, "utf8")).not.toContain("secret-token");
+
+    const replay = await startReplayServer(recording);
+    cleanup.push(replay.close);
+    expect(
+      await listPullRequestThreads({ ...config, apiBaseUrl: replay.url })
+    ).toEqual(recorded);
+    expect(
+      await getAuthenticatedUserId(createConnection(replay.url, "token"))
+    ).toBe(userId);
+  });
+
+  it("should answer 404 for requests that weren't recorded", async () => {
+    const replay = await startReplayServer({
+      collectionPath: "/contoso",
+      interactions: [],
+    });
+    cleanup.push(replay.close);
+
+    await expect(
+      listPullRequestThreads({ ...config, apiBaseUrl: replay.url })
+    ).rejects.toThrow("Failed to list PR threads: 404");
+  });
+
+  it("should report writes in a dry run without sending them", async () => {
+    const fake = await startFakeAdoServer(
+      createFakeAdoState({
+        pullRequests: [{ pullRequestId: 42, threads: [thread] }],
+      })
+    );
+    cleanup.push(fake.close);
+    const writes: PlannedWrite[] = [];
+    const proxy = await startDryRunProxy(fake.url, (write) =>
+      writes.push(write)
+    );
+    cleanup.push(proxy.close);
+    const dryRunConfig = { ...config, apiBaseUrl: proxy.url };
+
+    const created = await createInlineThread(dryRunConfig, "Finding", {
+      filePath: "/src/app.ts",
+    });
+    const connection = createConnection(proxy.url, "token");
+    await setReviewerVote(
+      connection,
+      {
+        collectionUrl: fake.url,
+        organization: "contoso",
+        project: "Web App",
+        repository: "web",
+      },
+      42,
+      await getAuthenticatedUserId(connection),
+      10
+    );
+
+    expect(created.id).toBe(-1);
+    expect(writes.map((write) => write.method)).toEqual(["POST", "PUT"]);
+    expect(writes[0]).toMatchObject({
+      url: `${fake.url}/Web%20App/_apis/git/repositories/web/pullRequests/42/threads?api-version=7.1`,
+      body: { comments: [{ content: "Finding" }], threadContext: {} },
+    });
+    expect(writes[1].body).toMatchObject({ vote: 10 });
+    expect(await listPullRequestThreads(dryRunConfig)).toEqual([
+      expect.objectContaining({ id: 1 }),
+    ]);
+    expect(fake.state.pullRequests[0].reviewers).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+
+// Stands in for the collection URL in recorded bodies
+const BASE_URL_PLACEHOLDER = "{{baseUrl}}";
+
+// Response headers worth replaying; everything else is left out
+const RECORDED_HEADERS = [
+  "content-type",
+  "x-ms-continuationtoken",
+  "retry-after",
+];
+
+// Requests that don't change anything, forwarded in a dry run
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export interface RecordedInteraction {
+  method: string;
+  // Relative to the collection, with the query string
+  path: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface AdoRecording {
+  // Path of the recorded collection, e.g. /contoso or /tfs/Collection
+  collectionPath: string;
+  interactions: RecordedInteraction[];
+}
+
+// A write a dry run would have sent
+export interface PlannedWrite {
+  method: string;
+  url: string;
+  // Parsed JSON, or the text of a body that isn't JSON
+  body: unknown;
+}
+
+export interface LocalAdoServer {
+  // Collection URL to send API requests to
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Read a recording written by --record
+ */
+export function readRecording(file: string): AdoRecording {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Failed to read recording ${file}: ${error}`);
+  }
+}
+
+function getInteractionKey(method: string, path: string): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks)));
+    request.on("error", reject);
+  });
+}
+
+async function listen(
+  server: http.Server,
+  collectionPath: string
+): Promise<LocalAdoServer> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  // Don't keep the CLI running once the review is done
+  server.unref();
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}${collectionPath}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+interface ForwardedResponse {
+  status: number;
+  headers: Record<string, string>;
+  // With the collection URL replaced by the proxy's
+  text: string;
+}
+
+/**
+ * Send a request on to the collection, rewriting absolute URLs in the
+ * response (resource areas, links) so later requests come back to the proxy
+ */
+async function forwardRequest(
+  request: http.IncomingMessage,
+  body: Buffer,
+  collectionUrl: string,
+  proxyUrl: string
+): Promise<ForwardedResponse> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (
+      typeof value === "string" &&
+      !["host", "connection", "content-length"].includes(name)
+    ) {
+      headers[name] = value;
+    }
+  }
+
+  const upstream = await fetch(
+    `${new URL(collectionUrl).origin}${request.url || "/"}`,
+    {
+      method: request.method || "GET",
+      headers,
+      body: body.length > 0 ? body : undefined,
+    }
+  );
+
+  const text = (await upstream.text()).replaceAll(
+    collectionUrl.replace(/\/+$/, ""),
+    proxyUrl
+  );
+  const forwarded: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) {
+      forwarded[name] = value;
+    }
+  }
+  return { status: upstream.status, headers: forwarded, text };
+}
+
+function sendProxyError(response: http.ServerResponse, error: unknown): void {
+  response.writeHead(502, { "Content-Type": "application/json" });
+  response.end(JSON.stringify({ message: `Proxy request failed: ${error}` }));
+}
+
+function getCollectionPath(collectionUrl: string): string {
+  return new URL(collectionUrl).pathname.replace(/\/+$/, "");
+}
+
+/**
+ * Forward API requests to the collection and save every interaction to a
+ * file; credentials are never written, request headers aren't recorded
+ */
+export async function startRecordingProxy(
+  collectionUrl: string,
+  file: string
+): Promise<LocalAdoServer> {
+  const collectionPath = getCollectionPath(collectionUrl);
+  const recording: AdoRecording = { collectionPath, interactions: [] };
+  let proxyUrl = "";
+
+  const server = http.createServer(async (request, response) => {
+    const requestPath = request.url || "/";
+    const path = requestPath.startsWith(collectionPath)
+      ? requestPath.slice(collectionPath.length)
+      : requestPath;
+
+    try {
+      const body = await readBody(request);
+      const { status, headers, text } = await forwardRequest(
+        request,
+        body,
+        collectionUrl,
+        proxyUrl
+      );
+
+      recording.interactions.push({
+        method: request.method || "GET",
+        path,
+        status,
+        headers,
+        body: text.replaceAll(proxyUrl, BASE_URL_PLACEHOLDER),
+      });
+      fs.writeFileSync(file, JSON.stringify(recording, null, 2));
+
+      response.writeHead(status, headers);
+      response.end(text);
+    } catch (error) {
+      sendProxyError(response, error);
+    }
+  });
+
+  const proxy = await listen(server, collectionPath);
+  proxyUrl = proxy.url;
+  return proxy;
+}
+
+/**
+ * Forward reads to the collection and hand every write to onWrite instead of
+ * sending it; writes are answered with their own body and a placeholder id
+ */
+export async function startDryRunProxy(
+  collectionUrl: string,
+  onWrite: (write: PlannedWrite) => void
+): Promise<LocalAdoServer> {
+  const collectionPath = getCollectionPath(collectionUrl);
+  let proxyUrl = "";
+  let placeholderId = 0;
+
+  const server = http.createServer(async (request, response) => {
+    const method = request.method || "GET";
+
+    try {
+      const body = await readBody(request);
+      if (READ_METHODS.includes(method)) {
+        const { status, headers, text } = await forwardRequest(
+          request,
+          body,
+          collectionUrl,
+          proxyUrl
+        );
+        response.writeHead(status, headers);
+        response.end(text);
+        return;
+      }
+
+      const url = `${new URL(collectionUrl).origin}${request.url || "/"}`;
+      const text = body.toString("utf8");
+      let payload: unknown = text;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        // Not JSON, reported as text
+      }
+      onWrite({ method, url, body: payload });
+
+      placeholderId -= 1;
+      const echo =
+        payload && typeof payload === "object" && !Array.isArray(payload)
+          ? { ...payload, id: placeholderId }
+          : { id: placeholderId };
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(echo));
+    } catch (error) {
+      sendProxyError(response, error);
+    }
+  });
+
+  const proxy = await listen(server, collectionPath);
+  proxyUrl = proxy.url;
+  return proxy;
+}
+
+/**
+ * Answer API requests from a recording, in the order they were recorded
+ * The last response to a request is repeated once the recording runs out
+ */
+export async function startReplayServer(
+  recording: AdoRecording
+): Promise<LocalAdoServer> {
+  const queues = new Map<string, RecordedInteraction[]>();
+  for (const interaction of recording.interactions) {
+    const key = getInteractionKey(interaction.method, interaction.path);
+    queues.set(key, [...(queues.get(key) || []), interaction]);
+  }
+  let baseUrl = "";
+
+  const server = http.createServer(async (request, response) => {
+    await readBody(request);
+    const requestPath = request.url || "/";
+    const path = requestPath.startsWith(recording.collectionPath)
+      ? requestPath.slice(recording.collectionPath.length)
+      : requestPath;
+    const queue = queues.get(getInteractionKey(request.method || "GET", path));
+
+    if (!queue?.length) {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify({
+          message: `No recorded response for ${request.method} ${path}`,
+        })
+      );
+      return;
+    }
+
+    const interaction = queue.length > 1 ? queue.shift()! : queue[0];
+    response.writeHead(interaction.status, interaction.headers);
+    response.end(interaction.body.replaceAll(BASE_URL_PLACEHOLDER, baseUrl));
+  });
+
+  const replay = await listen(server, recording.collectionPath);
+  baseUrl = replay.url;
+  return replay;
+}
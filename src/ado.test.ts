@@ -5,7 +5,9 @@ import {
   createConnection,
   getOrgUrl,
   extractWorkItemFromPRTitle,
+  getReviewerVote,
   isWorkItemLinked,
+  setReviewerVote,
   updateWorkItem,
 } from "./ado.js";
 import type { PullRequestInfo } from "./ado.js";
@@ -13,6 +15,7 @@ import type { PullRequestInfo } from "./ado.js";
 // Mock azure-devops-node-api
 vi.mock("azure-devops-node-api", () => ({
   getPersonalAccessTokenHandler: vi.fn(),
+  getBearerHandler: vi.fn(),
   WebApi: vi.fn(),
 }));
 
@@ -25,6 +28,8 @@ const mockGitApi = {
   getPullRequests: vi.fn(),
   createPullRequest: vi.fn(),
   getRepository: vi.fn(),
+  getPullRequestReviewers: vi.fn(),
+  createPullRequestReviewer: vi.fn(),
 };
 
 const mockWitApi = {
@@ -57,10 +62,18 @@ describe("ado utilities", () => {
       );
       expect(azdev.WebApi).toHaveBeenCalledWith(
         "https://dev.azure.com/org",
-        mockAuthHandler
+        mockAuthHandler,
+        expect.objectContaining({ allowRetries: true })
       );
       expect(result).toBe(mockWebApi);
     });
+
+    it("should use a bearer handler for job tokens", () => {
+      createConnection("https://dev.azure.com/org", "job-token", "bearer");
+
+      expect(azdev.getBearerHandler).toHaveBeenCalledWith("job-token");
+      expect(azdev.getPersonalAccessTokenHandler).not.toHaveBeenCalled();
+    });
   });
 
   describe("getOrgUrl", () => {
@@ -161,8 +174,56 @@ describe("ado utilities", () => {
     });
   });
 
+  describe("reviewer votes", () => {
+    const remoteInfo = {
+      collectionUrl: "https://dev.azure.com/org",
+      organization: "org",
+      project: "project",
+      repository: "repo",
+    };
+
+    it("should return the reviewer's current vote", async () => {
+      mockGitApi.getPullRequestReviewers.mockResolvedValue([
+        { id: "other", vote: 10 },
+        { id: "bot", vote: -5 },
+      ]);
+
+      expect(
+        await getReviewerVote(mockWebApi as any, remoteInfo, 42, "bot")
+      ).toBe(-5);
+      expect(
+        await getReviewerVote(mockWebApi as any, remoteInfo, 42, "missing")
+      ).toBeNull();
+    });
+
+    it("should add the reviewer with their vote", async () => {
+      mockGitApi.createPullRequestReviewer.mockResolvedValue({ vote: 5 });
+
+      await setReviewerVote(mockWebApi as any, remoteInfo, 42, "bot", 5);
+
+      expect(mockGitApi.createPullRequestReviewer).toHaveBeenCalledWith(
+        { vote: 5 },
+        "repo",
+        42,
+        "bot",
+        "project"
+      );
+    });
+
+    it("should wrap API errors", async () => {
+      mockGitApi.createPullRequestReviewer.mockRejectedValue(
+        new Error("Forbidden")
+      );
+
+      await expect(
+        setReviewerVote(mockWebApi as any, remoteInfo, 42, "bot", 10)
+      ).rejects.toThrow("Failed to set reviewer vote: Error: Forbidden");
+    });
+  });
+
   describe("updateWorkItem", () => {
     const mockRemoteInfo = {
+      collectionUrl: "https://dev.azure.com/convergentis",
       organization: "convergentis",
       project: "CIS Planning",
       repository: "test-repo",
@@ -1,10 +1,20 @@
 import * as azdev from "azure-devops-node-api";
 import { GitApi } from "azure-devops-node-api/GitApi";
 import { WorkItemTrackingApi } from "azure-devops-node-api/WorkItemTrackingApi";
-import { PullRequestStatus } from "azure-devops-node-api/interfaces/GitInterfaces";
-
-import type { GitPullRequest } from "azure-devops-node-api/interfaces/GitInterfaces";
+import {
+  PullRequestStatus,
+  VersionControlChangeType,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+
+import type {
+  GitPullRequest,
+  GitPullRequestChange,
+  GitPullRequestIteration,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
 import { WorkItem } from "azure-devops-node-api/interfaces/WorkItemTrackingInterfaces";
+import { DEFAULT_TIMEOUT_MS, MAX_RETRIES } from "./ado-client.js";
+import { getCloudCollectionUrl } from "./collection-url.js";
+import { TokenType } from "./credentials.js";
 import { GitRemoteInfo } from "./git.js";
 
 export interface PullRequestInfo {
@@ -24,16 +34,28 @@ export interface PullRequestInfo {
 /**
  * Create Azure DevOps connection
  */
-export function createConnection(orgUrl: string, token: string): azdev.WebApi {
-  const authHandler = azdev.getPersonalAccessTokenHandler(token);
-  return new azdev.WebApi(orgUrl, authHandler);
+export function createConnection(
+  orgUrl: string,
+  token: string,
+  tokenType: TokenType = "pat"
+): azdev.WebApi {
+  const authHandler =
+    tokenType === "bearer"
+      ? azdev.getBearerHandler(token)
+      : azdev.getPersonalAccessTokenHandler(token);
+  // Same timeout and retry budget as the REST calls in ado-client
+  return new azdev.WebApi(orgUrl, authHandler, {
+    allowRetries: true,
+    maxRetries: MAX_RETRIES,
+    socketTimeout: DEFAULT_TIMEOUT_MS,
+  });
 }
 
 /**
  * Get organization URL from organization name
  */
 export function getOrgUrl(organization: string): string {
-  return `https://dev.azure.com/${organization}`;
+  return getCloudCollectionUrl(organization);
 }
 
 /**
@@ -113,6 +135,120 @@ export async function findPullRequest(
   }
 }
 
+/**
+ * Get a pull request by ID
+ */
+export async function getPullRequest(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  pullRequestId: number
+): Promise<GitPullRequest> {
+  try {
+    const gitApi = await connection.getGitApi();
+    const pr = await gitApi.getPullRequest(
+      remoteInfo.repository,
+      pullRequestId,
+      remoteInfo.project
+    );
+    if (!pr) {
+      throw new Error(`Pull request ${pullRequestId} not found`);
+    }
+    return pr;
+  } catch (error) {
+    throw new Error(`Failed to get pull request: ${error}`);
+  }
+}
+
+/**
+ * Get the latest iteration of a pull request and the files it changes
+ * compared to the target branch
+ */
+export async function getLatestIterationChanges(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  pullRequestId: number
+): Promise<{
+  iteration: GitPullRequestIteration;
+  changes: GitPullRequestChange[];
+}> {
+  try {
+    const gitApi = await connection.getGitApi();
+    const iterations = await gitApi.getPullRequestIterations(
+      remoteInfo.repository,
+      pullRequestId,
+      remoteInfo.project
+    );
+
+    const iteration = iterations?.[iterations.length - 1];
+    if (!iteration?.id) {
+      throw new Error(`Pull request ${pullRequestId} has no iterations`);
+    }
+
+    // Changes are paged; keep requesting until there is no next page
+    const changes: GitPullRequestChange[] = [];
+    let top = 2000;
+    let skip = 0;
+
+    while (true) {
+      const page = await gitApi.getPullRequestIterationChanges(
+        remoteInfo.repository,
+        pullRequestId,
+        iteration.id,
+        remoteInfo.project,
+        top,
+        skip
+      );
+      changes.push(...(page?.changeEntries || []));
+
+      if (!page?.nextTop) {
+        break;
+      }
+      top = page.nextTop;
+      skip = page.nextSkip || 0;
+    }
+
+    return { iteration, changes };
+  } catch (error) {
+    throw new Error(`Failed to get pull request changes: ${error}`);
+  }
+}
+
+/**
+ * Check whether a change entry has a given change type flag
+ */
+export function hasChangeType(
+  change: GitPullRequestChange,
+  type: VersionControlChangeType
+): boolean {
+  return ((change.changeType || 0) & type) === type;
+}
+
+/**
+ * Download the content of a git blob as text
+ */
+export async function getBlobText(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  objectId: string
+): Promise<string> {
+  try {
+    const gitApi = await connection.getGitApi();
+    const stream = await gitApi.getBlobContent(
+      remoteInfo.repository,
+      objectId,
+      remoteInfo.project
+    );
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream as AsyncIterable<Buffer | string>) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+  } catch (error) {
+    throw new Error(`Failed to get blob ${objectId}: ${error}`);
+  }
+}
+
 /**
  * Create a new pull request
  */
@@ -157,6 +293,72 @@ export async function createPullRequest(
   }
 }
 
+/**
+ * Get the identity id of the user the connection's token belongs to
+ */
+export async function getAuthenticatedUserId(
+  connection: azdev.WebApi
+): Promise<string> {
+  try {
+    const connectionData = await connection.connect();
+    const id = connectionData.authenticatedUser?.id;
+    if (!id) {
+      throw new Error("No authenticated user in connection data");
+    }
+    return id;
+  } catch (error) {
+    throw new Error(`Failed to get authenticated user: ${error}`);
+  }
+}
+
+/**
+ * Get a reviewer's current vote on a pull request, or null when they aren't
+ * a reviewer
+ */
+export async function getReviewerVote(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  pullRequestId: number,
+  reviewerId: string
+): Promise<number | null> {
+  try {
+    const gitApi = await connection.getGitApi();
+    const reviewers = await gitApi.getPullRequestReviewers(
+      remoteInfo.repository,
+      pullRequestId,
+      remoteInfo.project
+    );
+    const reviewer = reviewers?.find((item) => item.id === reviewerId);
+    return reviewer ? reviewer.vote || 0 : null;
+  } catch (error) {
+    throw new Error(`Failed to get pull request reviewers: ${error}`);
+  }
+}
+
+/**
+ * Add a reviewer to a pull request, or update their vote if they already are
+ */
+export async function setReviewerVote(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  pullRequestId: number,
+  reviewerId: string,
+  vote: number
+) {
+  try {
+    const gitApi = await connection.getGitApi();
+    return await gitApi.createPullRequestReviewer(
+      { vote },
+      remoteInfo.repository,
+      pullRequestId,
+      reviewerId,
+      remoteInfo.project
+    );
+  } catch (error) {
+    throw new Error(`Failed to set reviewer vote: ${error}`);
+  }
+}
+
 /**
  * Check if work item exists
  */
@@ -250,15 +452,19 @@ export async function updateWorkItem(
   branchName: string,
   workItemId: string,
   token: string,
-  dryRun: boolean = false
+  dryRun: boolean = false,
+  tokenType: TokenType = "pat"
 ): Promise<{
   success: boolean;
   message: string;
   pr?: GitPullRequest;
   workItemExists?: boolean;
 }> {
-  const orgUrl = getOrgUrl(remoteInfo.organization);
-  const connection = createConnection(orgUrl, token);
+  const connection = createConnection(
+    remoteInfo.collectionUrl,
+    token,
+    tokenType
+  );
 
   try {
     // Check if work item exists
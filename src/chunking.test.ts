@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateTokens,
+  splitDiffByFile,
+  createDiffBatches,
+  mapWithConcurrency,
+  mergeFindings,
+} from "./chunking.js";
+import type { ReviewFinding } from "./findings.js";
+
+function fileDiff(filePath: string, hunks: string[]): string {
+  return [
+    `diff --git a/${filePath} b/${filePath}`,
+    "index 1111111..2222222 100644",
+    `--- a/${filePath}`,
+    `+++ b/${filePath}`,
+    ...hunks,
+  ].join("\n");
+}
+
+function hunk(start: number, content: string): string {
+  return `@@ -${start},1 +${start},1 @@\n-old\n+${content}`;
+}
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "medium",
+  category: "bug",
+  file: "src/a.ts",
+  startLine: 10,
+  endLine: 12,
+  title: "Missing null check",
+  body: "body",
+};
+
+describe("chunking", () => {
+  describe("estimateTokens", () => {
+    it("should estimate about four characters per token", () => {
+      expect(estimateTokens("")).toBe(0);
+      expect(estimateTokens("abcd")).toBe(1);
+      expect(estimateTokens("abcde")).toBe(2);
+    });
+  });
+
+  describe("splitDiffByFile", () => {
+    it("should split a diff into file sections", () => {
+      const a = fileDiff("src/a.ts", [hunk(1, "a")]);
+      const b = fileDiff("lib/b.ts", [hunk(1, "b")]);
+      const sections = splitDiffByFile(`${a}\n${b}\n`);
+
+      expect(sections).toEqual([
+        { filePath: "src/a.ts", text: a },
+        { filePath: "lib/b.ts", text: b },
+      ]);
+    });
+  });
+
+  describe("createDiffBatches", () => {
+    const a = fileDiff("src/a.ts", [hunk(1, "a".repeat(200))]);
+    const b = fileDiff("src/b.ts", [hunk(1, "b".repeat(200))]);
+    const c = fileDiff("lib/c.ts", [hunk(1, "c".repeat(200))]);
+    const diff = [a, c, b].join("\n");
+
+    it("should keep everything in one batch when it fits", () => {
+      const batches = createDiffBatches(diff, 10000);
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0].files).toEqual(["src/a.ts", "src/b.ts", "lib/c.ts"]);
+    });
+
+    it("should group files by directory", () => {
+      const batches = createDiffBatches(diff, estimateTokens(a + b) + 10);
+
+      expect(batches.map((batch) => batch.files)).toEqual([
+        ["src/a.ts", "src/b.ts"],
+        ["lib/c.ts"],
+      ]);
+    });
+
+    it("should batch individual files when chunking by file", () => {
+      const batches = createDiffBatches(diff, estimateTokens(a) + 10, "file");
+
+      expect(batches.map((batch) => batch.files)).toEqual([
+        ["src/a.ts"],
+        ["lib/c.ts"],
+        ["src/b.ts"],
+      ]);
+    });
+
+    it("should split files larger than the budget by hunk", () => {
+      const large = fileDiff("src/large.ts", [
+        hunk(1, "x".repeat(400)),
+        hunk(50, "y".repeat(400)),
+      ]);
+      const batches = createDiffBatches(large, 150);
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0].diff).toContain("+++ b/src/large.ts");
+      expect(batches[0].diff).toContain("@@ -1,1 +1,1 @@");
+      expect(batches[1].diff).toContain("+++ b/src/large.ts");
+      expect(batches[1].diff).toContain("@@ -50,1 +50,1 @@");
+    });
+  });
+
+  describe("mapWithConcurrency", () => {
+    it("should limit concurrency and keep result order", async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await mapWithConcurrency([3, 1, 2], 2, async (item) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, item));
+        running--;
+        return item * 10;
+      });
+
+      expect(results).toEqual([30, 10, 20]);
+      expect(maxRunning).toBe(2);
+    });
+  });
+
+  describe("mergeFindings", () => {
+    it("should collapse duplicates and keep the most severe copy", () => {
+      const merged = mergeFindings([
+        [finding],
+        [{ ...finding, id: "F7", severity: "high", startLine: 11 }],
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].severity).toBe("high");
+      expect(merged[0].id).toBe("F1");
+    });
+
+    it("should treat matching titles in the same file as duplicates", () => {
+      const merged = mergeFindings([
+        [finding],
+        [{ ...finding, title: "Missing null-check", startLine: 90 }],
+      ]);
+
+      expect(merged).toHaveLength(1);
+    });
+
+    it("should keep distinct findings and renumber them", () => {
+      const merged = mergeFindings([
+        [finding],
+        [
+          { ...finding, id: "F1", file: "src/b.ts" },
+          { ...finding, id: "F2", category: "security", title: "Injection" },
+        ],
+      ]);
+
+      expect(merged.map((f) => f.id)).toEqual(["F1", "F2", "F3"]);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import path from "path";
+import { ReviewFinding, SEVERITIES } from "./findings.js";
+
+export type ChunkBy = "file" | "directory";
+
+export interface FileDiffSection {
+  filePath: string;
+  text: string;
+}
+
+export interface DiffBatch {
+  files: string[];
+  diff: string;
+  estimatedTokens: number;
+}
+
+/**
+ * Rough token estimate for Claude models (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split a unified git diff into one section per file
+ */
+export function splitDiffByFile(diff: string): FileDiffSection[] {
+  const sections: FileDiffSection[] = [];
+  let current: { filePath: string; lines: string[] } | null = null;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git")) {
+      if (current) {
+        sections.push({
+          filePath: current.filePath,
+          text: current.lines.join("\n"),
+        });
+      }
+      const match = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      current = { filePath: match ? match[2] : "", lines: [] };
+    }
+
+    current?.lines.push(line);
+  }
+
+  if (current) {
+    sections.push({
+      filePath: current.filePath,
+      text: current.lines.join("\n").replace(/\n+$/, ""),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Split a single file section by hunk so each part fits the token budget
+ * Every part repeats the file header so it remains a valid diff
+ */
+function splitFileSection(
+  section: FileDiffSection,
+  maxTokens: number
+): FileDiffSection[] {
+  const lines = section.text.split("\n");
+  const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+  if (firstHunk === -1) {
+    return [section];
+  }
+
+  const header = lines.slice(0, firstHunk).join("\n");
+  const hunks: string[] = [];
+  let currentHunk: string[] = [];
+
+  for (const line of lines.slice(firstHunk)) {
+    if (line.startsWith("@@") && currentHunk.length > 0) {
+      hunks.push(currentHunk.join("\n"));
+      currentHunk = [];
+    }
+    currentHunk.push(line);
+  }
+  hunks.push(currentHunk.join("\n"));
+
+  const parts: FileDiffSection[] = [];
+  let partHunks: string[] = [];
+
+  for (const hunk of hunks) {
+    const candidate = [header, ...partHunks, hunk].join("\n");
+    if (partHunks.length > 0 && estimateTokens(candidate) > maxTokens) {
+      parts.push({
+        filePath: section.filePath,
+        text: [header, ...partHunks].join("\n"),
+      });
+      partHunks = [];
+    }
+    partHunks.push(hunk);
+  }
+  parts.push({
+    filePath: section.filePath,
+    text: [header, ...partHunks].join("\n"),
+  });
+
+  return parts;
+}
+
+/**
+ * Group a diff into batches that each fit within the token budget
+ * Files are kept together by directory when chunking by directory;
+ * files larger than the budget are split by hunk
+ */
+export function createDiffBatches(
+  diff: string,
+  maxTokens: number,
+  chunkBy: ChunkBy = "directory"
+): DiffBatch[] {
+  const groups = new Map<string, FileDiffSection[]>();
+
+  for (const section of splitDiffByFile(diff)) {
+    const key =
+      chunkBy === "directory"
+        ? path.posix.dirname(section.filePath)
+        : section.filePath;
+    const parts =
+      estimateTokens(section.text) > maxTokens
+        ? splitFileSection(section, maxTokens)
+        : [section];
+    groups.set(key, [...(groups.get(key) || []), ...parts]);
+  }
+
+  const batches: DiffBatch[] = [];
+  let current: FileDiffSection[] = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    const batchDiff = current.map((section) => section.text).join("\n");
+    batches.push({
+      files: [...new Set(current.map((section) => section.filePath))],
+      diff: batchDiff,
+      estimatedTokens: estimateTokens(batchDiff),
+    });
+    current = [];
+  };
+
+  const currentTokens = () =>
+    current.reduce((total, section) => total + estimateTokens(section.text), 0);
+
+  for (const sections of groups.values()) {
+    const groupTokens = sections.reduce(
+      (total, section) => total + estimateTokens(section.text),
+      0
+    );
+
+    // Keep a group together when it fits in a batch of its own
+    if (groupTokens <= maxTokens) {
+      if (currentTokens() + groupTokens > maxTokens) {
+        flush();
+      }
+      current.push(...sections);
+      continue;
+    }
+
+    for (const section of sections) {
+      if (currentTokens() + estimateTokens(section.text) > maxTokens) {
+        flush();
+      }
+      current.push(section);
+    }
+  }
+  flush();
+
+  return batches;
+}
+
+/**
+ * Run an async function over items with at most `limit` running at once
+ * Results keep the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker
+  );
+  await Promise.all(workers);
+
+  return results;
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function rangesOverlap(a: ReviewFinding, b: ReviewFinding): boolean {
+  if (a.startLine === undefined || b.startLine === undefined) {
+    return false;
+  }
+  const aEnd = a.endLine ?? a.startLine;
+  const bEnd = b.endLine ?? b.startLine;
+  return a.startLine <= bEnd && b.startLine <= aEnd;
+}
+
+/**
+ * Check whether two findings describe the same issue
+ */
+export function isDuplicateFinding(
+  a: ReviewFinding,
+  b: ReviewFinding
+): boolean {
+  if ((a.file || "") !== (b.file || "")) {
+    return false;
+  }
+  if (normalizeTitle(a.title) === normalizeTitle(b.title)) {
+    return true;
+  }
+  return (
+    a.file !== undefined && a.category === b.category && rangesOverlap(a, b)
+  );
+}
+
+/**
+ * Merge findings from several review passes, collapsing duplicates
+ * The most severe copy of a duplicate is kept and ids are renumbered
+ */
+export function mergeFindings(
+  findingLists: ReviewFinding[][]
+): ReviewFinding[] {
+  const merged: ReviewFinding[] = [];
+
+  for (const finding of findingLists.flat()) {
+    const index = merged.findIndex((existing) =>
+      isDuplicateFinding(existing, finding)
+    );
+
+    if (index === -1) {
+      merged.push(finding);
+    } else if (
+      SEVERITIES.indexOf(finding.severity) <
+      SEVERITIES.indexOf(merged[index].severity)
+    ) {
+      merged[index] = finding;
+    }
+  }
+
+  return merged.map((finding, index) => ({ ...finding, id: `F${index + 1}` }));
+}
@@ -1,15 +1,20 @@
 #!/usr/bin/env node
 
-import { Command } from "@commander-js/extra-typings";
+import {
+  Command,
+  InvalidArgumentError,
+  Option,
+} from "@commander-js/extra-typings";
 import { $ } from "execa";
 import prompts from "prompts";
 import ora from "ora";
 import { execSync } from "child_process";
 import fs from "fs";
+import http from "http";
+import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import { glob } from "fast-glob";
-import { minimatch } from "minimatch";
 
 import pino from "pino";
 import {
@@ -17,8 +22,178 @@ import {
   getRemoteUrl,
   parseAzureDevOpsRemote,
   isGitRepository,
+  getCommitSha,
+  getCommitAuthor,
+  getMergeBase,
+  isAncestorOfHead,
+  getFileAtRevision,
+  refExists,
+  isSafeBranchName,
+  getDiffArgs,
+  DiffMode,
+  GitRemoteInfo,
 } from "./git.js";
-import { createConnection, getOrgUrl, findPullRequest } from "./ado.js";
+import {
+  createConnection,
+  findPullRequest,
+  getAuthenticatedUserId,
+  getReviewerVote,
+  setReviewerVote,
+} from "./ado.js";
+import { AdoRequestError, adoRequest } from "./ado-client.js";
+import {
+  AzureConfig,
+  getAccessToken,
+  getAuthorizationHeader,
+  getApiBaseUrl,
+  getCollectionUrl,
+  getPullRequestApiUrl,
+} from "./ado-http.js";
+import {
+  PlannedWrite,
+  readRecording,
+  startDryRunProxy,
+  startRecordingProxy,
+  startReplayServer,
+} from "./ado-recording.js";
+import {
+  getCloudCollectionUrl,
+  getCollectionName,
+  getCollectionUrlFromApiUrl,
+  parseCollectionUrl,
+} from "./collection-url.js";
+import { AzureCredential, getDefaultCredential } from "./credentials.js";
+import {
+  FakeAdoSeed,
+  createFakeAdoServer,
+  createFakeAdoState,
+} from "./fake-ado.js";
+import {
+  fetchRemotePullRequestDiff,
+  materializeFiles,
+} from "./remote-review.js";
+import { filterDiff, parseUnifiedDiff, removeDiffContext } from "./diff.js";
+import {
+  DEFAULT_MAX_REPLIES,
+  buildReplyPrompt,
+  findThreadsAwaitingReply,
+  formatCodeContext,
+} from "./respond.js";
+import {
+  attachSuggestionBases,
+  formatSuggestionDiff,
+  planSuggestions,
+} from "./suggestions.js";
+import {
+  findFixedThreads,
+  formatResolutionReply,
+} from "./thread-resolution.js";
+import {
+  PullRequestThread,
+  REVIEW_HEADING,
+  buildInlineSummary,
+  findReviewThread,
+  resolveThread,
+  listPullRequestThreads,
+  parseThreadFinding,
+  postInlineComments,
+  replyToThread,
+} from "./inline-threads.js";
+import {
+  DEFAULT_SUGGESTIONS_ON,
+  DEFAULT_WAIT_FOR_AUTHOR_ON,
+  VOTE_LABELS,
+  Vote,
+  decideIncrementalVote,
+  decideVote,
+  getOpenThreadFindings,
+} from "./vote.js";
+import {
+  DEFAULT_VERDICT_SEVERITY,
+  PullRequestStatus,
+  buildVerdictStatus,
+  setPullRequestStatus,
+} from "./pr-status.js";
+import {
+  PipelineEnvironment,
+  detectPipelineEnvironment,
+  formatPipelineFailure,
+  formatPipelineResults,
+} from "./pipelines.js";
+import {
+  ReviewJob,
+  createJobQueue,
+  createWebhookServer,
+  getCloneDirectory,
+  getCloneUrl,
+} from "./webhook.js";
+import {
+  EXIT_CODES,
+  getBlockingFindings,
+  getWaivedFindings,
+} from "./quality-gate.js";
+import {
+  REVIEW_OUTPUT_SCHEMA,
+  SEVERITIES,
+  ReviewOutput,
+  ReviewValidationResult,
+  countFindingsBySeverity,
+  parseReviewOutput,
+} from "./findings.js";
+import {
+  DiffBatch,
+  createDiffBatches,
+  estimateTokens,
+  mapWithConcurrency,
+  mergeFindings,
+} from "./chunking.js";
+import {
+  embedReplyMarker,
+  embedReviewMetadata,
+  formatIterationHeading,
+  parseReviewMetadata,
+  stripReviewMetadata,
+} from "./review-metadata.js";
+import {
+  BACKEND_NAMES,
+  BackendResult,
+  ReviewBackend,
+  createCliBackend,
+  createMessagesApiBackend,
+  sumBackendResults,
+} from "./review-backend.js";
+import {
+  LENSES,
+  LensName,
+  combineLensOutputs,
+  parseLensList,
+  renderLensReviewMarkdown,
+} from "./lenses.js";
+import {
+  CostEstimate,
+  calculateCost,
+  estimateReviewCost,
+  isWellAboveEstimate,
+} from "./cost.js";
+import {
+  DEFAULT_LEDGER_FILE,
+  STATS_GROUP_BY,
+  StatsGroupBy,
+  aggregateLedger,
+  appendLedgerRecord,
+  formatStatsCsv,
+  formatStatsTable,
+  readLedger,
+} from "./ledger.js";
+import {
+  OVER_BUDGET_ACTIONS,
+  ReviewConfig,
+  ReviewSettings,
+  findConfigFile,
+  loadReviewConfig,
+  resolveReviewSettings,
+  removeUntrustedSettings,
+} from "./config.js";
 
 const logger = pino({
   customLevels: {
@@ -35,41 +210,70 @@ const logger = pino({
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-interface AzureConfig {
-  token: string;
-  org: string;
-  project: string;
-  repo: string;
-  prId: string;
-}
-
 interface ExistingComment {
-  threadId: string;
-  commentId: string;
+  threadId: number;
+  commentId: number;
   existingContent: string;
 }
 
-interface ClaudeResult {
-  duration_ms?: number;
-  total_cost_usd?: number;
-  usage?: {
-    input_tokens?: number;
-    cache_read_input_tokens?: number;
-    output_tokens?: number;
-  };
+interface ReviewRevision {
+  headSha: string;
+  mergeBase: string;
+  incrementalFrom?: string;
+}
+
+interface ReviewInput {
+  gitDiff: string;
+  baseRef: string;
+  revision: ReviewRevision;
+  azureConfig?: AzureConfig | null;
+  // Set when the reviewed changes don't belong to a PR
+  skipPostReason?: string;
+  // Changes reviewed from the local checkout; unset in remote mode
+  diffMode?: DiffMode;
+  branch?: string;
+  author?: string;
+}
+
+function parsePositiveInt(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
 }
 
-interface HttpResponse {
-  statusCode: number;
-  statusMessage: string;
-  headers: Record<string, string>;
-  body: string;
+function parsePositiveNumber(value: string): number {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive number.");
+  }
+  return parsed;
+}
+
+function parseRange(value: string): string {
+  if (!value.includes("..")) {
+    throw new InvalidArgumentError("Expected a range like <a>..<b>.");
+  }
+  return value;
+}
+
+function parseLenses(value: string): LensName[] {
+  try {
+    return parseLensList(value);
+  } catch (error) {
+    throw new InvalidArgumentError((error as Error).message);
+  }
 }
 
+const DIFF_MODE_OPTIONS = ["staged", "workingTree", "range", "commit"];
+
 const program = new Command()
   .name("claude-review")
   .description("Review code changes using Claude Code")
   .version("1.0.0")
+  // Options after a subcommand belong to the subcommand, e.g. stats --ledger
+  .enablePositionalOptions()
   .option("-d, --directory <path>", "Directory to review", process.cwd())
   .option("-c, --compare-branch <branch>", "Branch to compare against", "main")
   .option(
@@ -93,7 +297,7 @@ const program = new Command()
   )
   .option(
     "--use-existing-review",
-    "Use existing claude-review.md file instead of running Claude again"
+    "Use existing claude-review.json file instead of running Claude again"
   )
   .option(
     "--append",
@@ -105,71 +309,481 @@ const program = new Command()
   )
   .option(
     "--remove-review-file",
-    "Remove the claude-review.md file after processing"
+    "Remove the claude-review.md and claude-review.json files after processing"
+  )
+  .option(
+    "--inline",
+    "Post each finding as an inline comment anchored to its file and line, plus a summary comment"
+  )
+  .option(
+    "--no-resolve-fixed",
+    "Don't resolve inline threads from earlier runs whose findings are fixed"
+  )
+  .option(
+    "--status",
+    "Publish the review verdict as the claude-review/verdict PR status"
+  )
+  .option(
+    "--vote",
+    "Add yourself as a reviewer and vote on the PR based on the findings"
+  )
+  .addOption(
+    new Option(
+      "--wait-for-author-on <severity>",
+      "With --vote, findings at or above this severity vote wait for author"
+    )
+      .choices(SEVERITIES)
+      .default(DEFAULT_WAIT_FOR_AUTHOR_ON)
+  )
+  .addOption(
+    new Option(
+      "--suggestions-on <severity>",
+      "With --vote, findings at or above this severity vote approve with suggestions"
+    )
+      .choices(SEVERITIES)
+      .default(DEFAULT_SUGGESTIONS_ON)
+  )
+  .option(
+    "--chunked",
+    "Review the diff in batches that fit the token budget and merge the results"
+  )
+  .option(
+    "--max-batch-tokens <tokens>",
+    "Token budget for each batch in chunked mode",
+    parsePositiveInt,
+    60000
+  )
+  .addOption(
+    new Option("--chunk-by <mode>", "How to group files into batches")
+      .choices(["file", "directory"] as const)
+      .default("directory" as const)
+  )
+  .option(
+    "--concurrency <n>",
+    "Number of batches to review at the same time in chunked mode",
+    parsePositiveInt,
+    1
+  )
+  .option(
+    "--lenses <list>",
+    "Run specialist reviews concurrently and merge them, e.g. security,performance,tests,api-design",
+    parseLenses
+  )
+  .addOption(
+    new Option("--backend <name>", "How to run Claude")
+      .choices(BACKEND_NAMES)
+      .default("cli" as const)
+  )
+  .addOption(
+    new Option(
+      "--api-base-url <url>",
+      "Base URL of the Messages API for the api backend (default: https://api.anthropic.com)"
+    ).env("ANTHROPIC_BASE_URL")
+  )
+  .addOption(
+    new Option(
+      "--fail-on <severity>",
+      "Exit with code 2 when the review has unwaived findings at or above this severity"
+    ).choices(SEVERITIES)
+  )
+  .option(
+    "--max-cost <usd>",
+    "Budget in USD for the estimated cost of the review",
+    parsePositiveNumber
+  )
+  .option(
+    "--max-input-tokens <tokens>",
+    "Budget for the estimated input tokens of a single Claude request",
+    parsePositiveInt
+  )
+  .addOption(
+    new Option(
+      "--over-budget <action>",
+      "When the estimate is over budget: abort, or auto to switch to chunked or summary mode"
+    )
+      .choices(OVER_BUDGET_ACTIONS)
+      .default("abort" as const)
+  )
+  .option(
+    "--ledger <file>",
+    "Usage ledger to append this run to (default: ~/.claude-review/usage.jsonl or CLAUDE_REVIEW_LEDGER)"
+  )
+  .option("--no-ledger", "Don't record this run in the usage ledger")
+  .option(
+    "--incremental",
+    "Only review commits pushed since the last posted review and append them as a new iteration"
+  )
+  .addOption(
+    new Option(
+      "--staged",
+      "Review staged changes instead of the branch (never posted)"
+    ).conflicts(DIFF_MODE_OPTIONS.filter((name) => name !== "staged"))
+  )
+  .addOption(
+    new Option(
+      "--working-tree",
+      "Review all uncommitted changes instead of the branch (never posted)"
+    ).conflicts(DIFF_MODE_OPTIONS.filter((name) => name !== "workingTree"))
+  )
+  .addOption(
+    new Option(
+      "--range <a..b>",
+      "Review a commit range instead of the branch (never posted)"
+    )
+      .argParser(parseRange)
+      .conflicts(DIFF_MODE_OPTIONS.filter((name) => name !== "range"))
+  )
+  .addOption(
+    new Option(
+      "--commit <sha>",
+      "Review a single commit instead of the branch (never posted)"
+    ).conflicts(DIFF_MODE_OPTIONS.filter((name) => name !== "commit"))
+  )
+  .addOption(
+    new Option(
+      "--remote",
+      "Fetch the PR diff from Azure DevOps instead of a local checkout (requires --azure-pr)"
+    ).conflicts(DIFF_MODE_OPTIONS)
+  )
+  .option(
+    "--materialize",
+    "In remote mode, write the changed files to a temporary directory so Claude can read them"
+  )
+  .option(
+    "--azure-org <org>",
+    "Azure DevOps organization (defaults to AZURE_DEVOPS_ORG or the git remote)"
+  )
+  .option(
+    "--azure-project <project>",
+    "Azure DevOps project (defaults to AZURE_DEVOPS_PROJECT or the git remote)"
+  )
+  .option(
+    "--azure-repo <repo>",
+    "Azure DevOps repository (defaults to AZURE_DEVOPS_REPO or the git remote)"
+  )
+  .option(
+    "--azure-collection-url <url>",
+    "Collection URL for Azure DevOps Server or visualstudio.com organizations, e.g. https://tfs.corp/tfs/Collection (defaults to AZURE_DEVOPS_COLLECTION_URL or the git remote)"
+  )
+  .option(
+    "--ado-base-url <url>",
+    "Send Azure DevOps API requests to this URL instead, e.g. the collection URL printed by the fake-ado command"
+  )
+  .addOption(
+    new Option(
+      "--record <file>",
+      "Record the Azure DevOps API calls of this run to a file for --replay"
+    ).conflicts(["adoBaseUrl", "replay"])
+  )
+  .addOption(
+    new Option(
+      "--replay <file>",
+      "Answer Azure DevOps API calls from a file written by --record instead of the network"
+    ).conflicts("adoBaseUrl")
+  )
+  .addOption(
+    new Option(
+      "--dry-run",
+      "Review and print every request that posting would send to Azure DevOps, without sending any writes"
+    ).conflicts("record")
+  )
+  .option(
+    "--untrusted-config",
+    "Ignore the config file's allowedTools, apiBaseUrl, backend and promptFile, for checkouts of code that isn't trusted yet"
+  )
+  .option(
+    "--print-config",
+    "Print the effective settings merged from the config file and flags, then exit"
   );
 
-program.parse();
+program
+  .command("stats")
+  .description("Summarize review usage and cost from the usage ledger")
+  .addOption(
+    new Option("--by <group>", "Group the stats by")
+      .choices(STATS_GROUP_BY)
+      .default("day" as const)
+  )
+  .option(
+    "--since <date>",
+    "Only include reviews on or after a date (YYYY-MM-DD)"
+  )
+  .option("--csv", "Print the stats as CSV")
+  .option("--ledger <file>", "Usage ledger to read")
+  .action((statsOptions) => showStats(statsOptions));
+
+program
+  .command("respond")
+  .description(
+    "Answer human replies to the review's inline threads on the current PR"
+  )
+  .option(
+    "--max-replies <n>",
+    "Most replies to post in one thread",
+    parsePositiveInt,
+    DEFAULT_MAX_REPLIES
+  )
+  .action((respondOptions) => respond(respondOptions));
+
+program
+  .command("apply-suggestions")
+  .description("Apply the suggested changes from a review to the working tree")
+  .option(
+    "--review-file <file>",
+    "Review JSON to read the suggestions from",
+    "claude-review.json"
+  )
+  .option("--dry-run", "Show the changes as a diff without writing them")
+  .action((applyOptions) => applySuggestions(applyOptions));
+
+program
+  .command("serve")
+  .description(
+    "Review pull requests when Azure DevOps service hooks report they were created or updated"
+  )
+  .option("--port <port>", "Port to listen on", parsePositiveInt, 8080)
+  .addOption(
+    new Option(
+      "--secret <secret>",
+      "Password the service hooks send with Basic authentication"
+    ).env("CLAUDE_REVIEW_WEBHOOK_SECRET")
+  )
+  .option(
+    "--cache-dir <dir>",
+    "Directory of the cached repository clones",
+    path.join(os.homedir(), ".cache", "claude-review", "repos")
+  )
+  .option(
+    "--debounce <seconds>",
+    "Wait for more pushes to a PR before reviewing it",
+    parsePositiveInt,
+    30
+  )
+  .action((serveOptions) => serve(serveOptions));
+
+program
+  .command("fake-ado")
+  .description(
+    "Run a local fake Azure DevOps server to try reviews against without a real organization"
+  )
+  .option("--port <port>", "Port to listen on", parsePositiveInt, 8081)
+  .option(
+    "--seed <file>",
+    "JSON file with the pull requests, work items and file contents to serve (default: one empty PR #1)"
+  )
+  .action((fakeOptions) => serveFakeAdo(fakeOptions));
+
+program.action(() => main());
+
+// Shares the parsed values; the command line is parsed at the end of the file
 const options = program.opts();
 
+// Effective settings, resolved from the repository config file and flags in main()
+let settings: ReviewSettings;
+
+// Directory Claude runs in; set to the materialized files in remote mode
+let claudeWorkDir: string | undefined;
+
+// Runs the review prompts, created in main() once the work directory is known
+let backend: ReviewBackend;
+
+// Metrics of every Claude run in this review, summed when the review is done
+const claudeResults: BackendResult[] = [];
+
+// API URL for --ado-base-url, --record, --replay or --dry-run, once resolved
+let localApiUrl: Promise<string | null> | undefined;
+
+// PR the verdict status is published to, set once it is marked pending or
+// the user agreed to post
+let statusConfig: AzureConfig | null = null;
+
+// Set when running in an Azure Pipelines build of a pull request
+let pipeline: PipelineEnvironment | null = null;
+
+/**
+ * Change to the target directory and merge the repository config file with
+ * the command line flags; returns the config file used, if any
+ */
+function loadSettings(): string | null {
+  process.chdir(options.directory);
+
+  const configFile = findConfigFile(getRepositoryRoot());
+  let fileConfig: ReviewConfig = configFile ? loadReviewConfig(configFile) : {};
+  // The config file of a PR branch could otherwise give Claude more tools
+  if (options.untrustedConfig) {
+    const { config, removed } = removeUntrustedSettings(fileConfig);
+    fileConfig = config;
+    if (removed.length > 0) {
+      logger.log(`⚠️  Ignoring ${removed.join(", ")} from ${configFile}`);
+    }
+  }
+  settings = resolveReviewSettings(options, fileConfig, (key) =>
+    ["cli", "env"].includes(program.getOptionValueSource(key) || "")
+  );
+
+  // The PR target is the right base in a pipeline unless a flag overrides it
+  pipeline = detectPipelineEnvironment();
+  if (pipeline && program.getOptionValueSource("compareBranch") !== "cli") {
+    if (!isSafeBranchName(pipeline.targetBranch)) {
+      throw new Error(
+        `Unsupported PR target branch name: ${pipeline.targetBranch}`
+      );
+    }
+    settings.compareBranch = `origin/${pipeline.targetBranch}`;
+  }
+
+  return configFile;
+}
+
 async function main(): Promise<void> {
   try {
     const spinner = ora("Starting Claude Code Review CLI").start();
     spinner.succeed("Claude Code Review CLI");
 
-    logger.log(`Reviewing changes in: ${options.directory}`);
-    logger.log(`Comparing against: ${options.compareBranch}`);
+    const configFile = loadSettings();
 
-    // Change to target directory
-    process.chdir(options.directory);
+    if (options.printConfig) {
+      console.log(JSON.stringify({ configFile, settings }, null, 2));
+      process.exit(0);
+    }
 
-    // Check if we're in a git repository
-    if (!fs.existsSync(".git")) {
-      console.error("❌ Not a git repository");
-      process.exit(1);
+    if (configFile) {
+      logger.log(`Using config file: ${configFile}`);
     }
 
-    // Check if compare branch exists
-    try {
-      execSync(`git rev-parse --verify ${options.compareBranch}`, {
-        stdio: "ignore",
-      });
-    } catch (error) {
-      console.error(`❌ Branch '${options.compareBranch}' not found`);
-      process.exit(1);
+    if (pipeline) {
+      logger.log(
+        pipeline.missing.length > 0
+          ? `⚠️  Azure Pipelines PR build without ${pipeline.missing.join(", ")}`
+          : "Running in Azure Pipelines"
+      );
     }
 
-    // Get git diff
-    const diffSpinner = ora("Getting changes...").start();
-    const gitDiff = await getGitDiff(options.compareBranch);
-    diffSpinner.succeed("Changes retrieved");
+    const input = options.remote
+      ? await getRemoteReviewInput()
+      : await getLocalReviewInput();
+    const { gitDiff, baseRef, revision } = input;
+    let azureConfig = input.azureConfig;
+
+    backend = createReviewBackend();
+    logger.log(`Using the ${backend.name} backend`);
 
     if (!gitDiff.trim()) {
-      logger.log("✅ No changes to review");
-      process.exit(0);
+      logger.log(
+        revision.incrementalFrom
+          ? "✅ No new changes since the last review"
+          : "✅ No changes to review"
+      );
+      // Quality gates can tell an empty review apart from a passing one
+      process.exit(
+        settings.failOn ? EXIT_CODES.nothingToReview : EXIT_CODES.success
+      );
+    }
+
+    // Posting without a prompt; otherwise the user decides once the review is done
+    const autoPost =
+      options.post !== false &&
+      Boolean(options.post || options.dryRun || pipeline);
+    let shouldPost = false;
+
+    if (settings.status && autoPost && !input.skipPostReason) {
+      if (azureConfig === undefined) {
+        azureConfig = await getAzureDevOpsConfig();
+      }
+      if (azureConfig) {
+        statusConfig = azureConfig;
+        await publishStatus({
+          state: "pending",
+          description: "Review in progress",
+        });
+      }
     }
 
-    let reviewFile = path.join(process.cwd(), "claude-review.md");
-    let review: string;
+    let reviewJsonFile = path.join(process.cwd(), "claude-review.json");
+    let reviewOutput: ReviewOutput;
+
+    const useExistingReview =
+      options.useExistingReview && fs.existsSync(reviewJsonFile);
+
+    // Estimate the cost up front and keep the review within budget
+    let reviewDiff = gitDiff;
+    let estimate: CostEstimate | undefined;
+    if (!useExistingReview) {
+      ({ diff: reviewDiff, estimate } = applyBudget(gitDiff));
+    }
 
     // Check if we should use existing review file
-    if (options.useExistingReview && fs.existsSync(reviewFile)) {
-      logger.log("📄 Using existing claude-review.md file...");
-      review = processClaudeOutput(reviewFile);
+    if (useExistingReview) {
+      logger.log("📄 Using existing claude-review.json file...");
+      reviewOutput = await loadReviewOutput(reviewJsonFile, false);
+    } else if (settings.lenses.length > 0) {
+      if (settings.chunked) {
+        logger.log("⚠️  --chunked is ignored when reviewing with lenses");
+      }
+      reviewOutput = await runLensReview(reviewDiff, baseRef, reviewJsonFile);
+    } else if (settings.chunked) {
+      reviewOutput = await runChunkedReview(
+        reviewDiff,
+        baseRef,
+        reviewJsonFile,
+        input.diffMode
+      );
     } else {
       // Run Claude
       const claudeSpinner = ora("Running Claude review...").start();
-      reviewFile = await runClaudeCode(
-        options.promptFile,
-        gitDiff,
-        options.compareBranch,
-        options.model
+      await runClaudeCode(
+        readPromptFile(settings.promptFile),
+        reviewDiff,
+        baseRef,
+        settings.model,
+        reviewJsonFile
       );
       claudeSpinner.succeed("Claude review completed");
 
-      // Check if Claude created the review file
-      review = processClaudeOutput(reviewFile);
+      // Check if Claude created a valid review file
+      reviewOutput = await loadReviewOutput(reviewJsonFile, true);
+    }
+
+    if (claudeResults.length > 0) {
+      const totals = sumBackendResults(claudeResults);
+      displayClaudeMetrics(totals);
+
+      if (
+        estimate &&
+        totals.costUsd !== undefined &&
+        isWellAboveEstimate(totals.costUsd, estimate.costUsd)
+      ) {
+        logger.log(
+          `⚠️  Actual cost $${totals.costUsd.toFixed(4)} is well above the estimate of $${estimate.costUsd.toFixed(4)}`
+        );
+      }
+
+      if (options.ledger !== false) {
+        recordUsage(totals, reviewOutput, reviewDiff, input);
+      }
+    }
+
+    // Record the lines each suggestion replaces for apply-suggestions
+    if (reviewOutput.findings.some((finding) => finding.suggestion)) {
+      reviewOutput.findings = attachSuggestionBases(
+        reviewOutput.findings,
+        parseUnifiedDiff(gitDiff)
+      );
+      fs.writeFileSync(reviewJsonFile, JSON.stringify(reviewOutput, null, 2));
     }
 
+    // Render the markdown comment from the structured findings
+    const review = renderLensReviewMarkdown(reviewOutput);
+    const reviewFile = path.join(process.cwd(), "claude-review.md");
+    fs.writeFileSync(reviewFile, review);
+
+    const counts = countFindingsBySeverity(reviewOutput.findings);
+    logger.log(
+      `Findings: ${Object.entries(counts)
+        .map(([severity, count]) => `${count} ${severity}`)
+        .join(", ")}`
+    );
+
     logger.log("\n✅ Review completed!\n");
     logger.log("=".repeat(50));
     logger.log(review);
@@ -180,11 +794,16 @@ async function main(): Promise<void> {
     // Handle Azure DevOps posting
     logger.log(`options: ${JSON.stringify(options)}`);
 
-    if (options.post !== false) {
+    if (input.skipPostReason) {
+      logger.log(`Skipping Azure DevOps posting: ${input.skipPostReason}`);
+    } else if (options.post !== false) {
       logger.log("Azure DevOps posting...");
-      const azureConfig = await getAzureDevOpsConfig();
+      if (azureConfig === undefined) {
+        azureConfig = await getAzureDevOpsConfig();
+      }
       if (azureConfig) {
-        let shouldPost = options.post; // Auto-post if --post flag
+        // Auto-post if --post flag; pipelines can't answer a prompt
+        shouldPost = autoPost;
 
         if (!shouldPost) {
           logger.flush();
@@ -195,11 +814,33 @@ async function main(): Promise<void> {
             message: `Post this review to Azure DevOps PR ${azureConfig.org}/${azureConfig.project} - PR #${azureConfig.prId}?`,
             initial: true,
           });
-          shouldPost = response.post;
+          shouldPost = Boolean(response.post);
+
+          // The verdict is only published with the review it belongs to
+          if (shouldPost && settings.status) {
+            statusConfig = azureConfig;
+          }
         }
 
         if (shouldPost) {
-          await postToAzureDevOps(review, azureConfig);
+          if (settings.resolveFixed) {
+            await resolveFixedThreads(
+              reviewOutput,
+              gitDiff,
+              azureConfig,
+              revision
+            );
+          }
+
+          let summary = review;
+          if (settings.inline) {
+            summary = await postInlineReview(
+              reviewOutput,
+              gitDiff,
+              azureConfig
+            );
+          }
+          await postToAzureDevOps(summary, azureConfig, revision);
         }
       } else {
         logger.log(
@@ -208,238 +849,1343 @@ async function main(): Promise<void> {
       }
     }
 
-    // Optionally remove the review file
-    if (options.removeReviewFile && fs.existsSync(reviewFile)) {
-      fs.unlinkSync(reviewFile);
-      logger.log("🗑️  Removed claude-review.md file");
-    } else {
-      // Keep claude-review.md file for user reference
-      logger.log("📄 claude-review.md saved for reference");
-    }
+    // Optionally remove the review file
+    if (options.removeReviewFile && fs.existsSync(reviewFile)) {
+      fs.unlinkSync(reviewFile);
+      if (fs.existsSync(reviewJsonFile)) {
+        fs.unlinkSync(reviewJsonFile);
+      }
+      logger.log("🗑️  Removed claude-review.md and claude-review.json files");
+    } else {
+      // Keep claude-review.md file for user reference
+      logger.log("📄 claude-review.md saved for reference");
+    }
+
+    const shouldVote = settings.vote && shouldPost;
+
+    if (settings.failOn || statusConfig || shouldVote || pipeline) {
+      if (azureConfig === undefined && !input.skipPostReason) {
+        azureConfig = await getAzureDevOpsConfig();
+      }
+      const threads = await loadPullRequestThreads(azureConfig || null);
+      const waived = getWaivedFindings(threads);
+
+      if (statusConfig) {
+        await publishStatus(
+          buildVerdictStatus(
+            reviewOutput.findings,
+            settings.failOn || DEFAULT_VERDICT_SEVERITY,
+            waived
+          )
+        );
+      }
+      if (shouldVote && azureConfig) {
+        await castVote(reviewOutput, threads, waived, azureConfig, revision);
+      }
+      if (pipeline) {
+        logger.flush();
+        for (const command of formatPipelineResults(
+          reviewOutput.findings,
+          settings.failOn,
+          waived
+        )) {
+          console.log(command);
+        }
+      }
+      if (settings.failOn) {
+        checkQualityGate(reviewOutput, waived);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    if (pipeline) {
+      for (const command of formatPipelineFailure((error as Error).message)) {
+        console.log(command);
+      }
+    }
+    if (statusConfig) {
+      await publishStatus({
+        state: "error",
+        description: `Review failed: ${(error as Error).message}`,
+      });
+    }
+    process.exit(EXIT_CODES.reviewFailed);
+  } finally {
+    removeMaterializedFiles();
+  }
+}
+
+/**
+ * Remove the files materialized for a remote review
+ */
+function removeMaterializedFiles(): void {
+  if (claudeWorkDir) {
+    fs.rmSync(claudeWorkDir, { recursive: true, force: true });
+    claudeWorkDir = undefined;
+  }
+}
+
+/**
+ * Update the verdict status; a failure to publish it doesn't fail the review
+ */
+async function publishStatus(status: PullRequestStatus): Promise<void> {
+  try {
+    await setPullRequestStatus(statusConfig!, status);
+    logger.log(
+      `${options.dryRun ? "Would set PR status" : "PR status"} ${status.state}: ${status.description}`
+    );
+  } catch (error) {
+    logger.log(`⚠️  ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Threads of the PR, used to find waived and still open findings
+ */
+async function loadPullRequestThreads(
+  azureConfig: AzureConfig | null
+): Promise<PullRequestThread[]> {
+  if (!azureConfig) {
+    return [];
+  }
+
+  try {
+    return await listPullRequestThreads(azureConfig);
+  } catch (error) {
+    logger.log(`⚠️  Could not load PR threads: ${(error as Error).message}`);
+    return [];
+  }
+}
+
+/**
+ * Add the token's identity as a reviewer and vote based on the findings
+ * Incremental reviews also count the open threads posted by earlier runs
+ */
+async function castVote(
+  reviewOutput: ReviewOutput,
+  threads: PullRequestThread[],
+  waived: ReviewOutput["findings"],
+  azureConfig: AzureConfig,
+  revision: ReviewRevision
+): Promise<void> {
+  const thresholds = {
+    waitForAuthorOn: settings.waitForAuthorOn,
+    suggestionsOn: settings.suggestionsOn,
+  };
+  const remoteInfo = {
+    collectionUrl: getCollectionUrl(azureConfig),
+    organization: azureConfig.org,
+    project: azureConfig.project,
+    repository: azureConfig.repo,
+  };
+  const prId = parseInt(azureConfig.prId, 10);
+
+  try {
+    const { token, tokenType } = await getAccessToken(azureConfig);
+    const connection = createConnection(
+      getApiBaseUrl(azureConfig),
+      token,
+      tokenType
+    );
+    const reviewerId = await getAuthenticatedUserId(connection);
+    let vote: Vote | null;
+
+    if (revision.incrementalFrom) {
+      const findings = [
+        ...reviewOutput.findings,
+        ...getOpenThreadFindings(threads, reviewerId),
+      ];
+      const currentVote = await getReviewerVote(
+        connection,
+        remoteInfo,
+        prId,
+        reviewerId
+      );
+      vote = decideIncrementalVote(findings, thresholds, currentVote, waived);
+    } else {
+      vote = decideVote(reviewOutput.findings, thresholds, waived);
+    }
+
+    if (vote === null) {
+      logger.log("Keeping the current vote after an incremental review");
+      return;
+    }
+
+    await setReviewerVote(connection, remoteInfo, prId, reviewerId, vote);
+    logger.log(
+      `🗳️  ${options.dryRun ? "Would vote" : "Voted"} ${VOTE_LABELS[vote]} on PR #${azureConfig.prId}`
+    );
+  } catch (error) {
+    logger.log(`⚠️  Could not vote: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Exit with the blocking findings code when findings at or above --fail-on
+ * remain after leaving out the ones waived in the PR
+ */
+function checkQualityGate(
+  reviewOutput: ReviewOutput,
+  waived: ReviewOutput["findings"]
+): void {
+  const failOn = settings.failOn!;
+  const blocking = getBlockingFindings(reviewOutput.findings, failOn, waived);
+  const waivedCount =
+    getBlockingFindings(reviewOutput.findings, failOn).length - blocking.length;
+
+  if (waivedCount > 0) {
+    logger.log(`Ignoring ${waivedCount} findings waived in the PR`);
+  }
+
+  if (blocking.length === 0) {
+    logger.log(`✅ No findings at or above ${failOn}`);
+    return;
+  }
+
+  logger.log(
+    `🚫 ${blocking.length} findings at or above ${failOn}:\n${blocking
+      .map(
+        (finding) => `   [${finding.id}] ${finding.severity}: ${finding.title}`
+      )
+      .join("\n")}`
+  );
+  logger.flush();
+  process.exit(EXIT_CODES.blockingFindings);
+}
+
+async function getLocalReviewInput(): Promise<ReviewInput> {
+  logger.log(`Reviewing changes in: ${options.directory}`);
+
+  // Check if we're in a git repository
+  if (!fs.existsSync(".git")) {
+    console.error("❌ Not a git repository");
+    process.exit(1);
+  }
+
+  const localMode = getLocalDiffMode();
+  if (localMode) {
+    return getLocalModeReviewInput(localMode);
+  }
+
+  logger.log(`Comparing against: ${settings.compareBranch}`);
+
+  // Check if compare branch exists
+  if (!(await refExists(settings.compareBranch))) {
+    console.error(`❌ Branch '${settings.compareBranch}' not found`);
+    process.exit(1);
+  }
+
+  const revision: ReviewRevision = {
+    headSha: await getCommitSha(),
+    mergeBase: await getMergeBase(settings.compareBranch),
+  };
+  let azureConfig: AzureConfig | null | undefined;
+
+  // Incremental mode needs the last reviewed commit from the posted review
+  if (options.incremental) {
+    azureConfig = await getAzureDevOpsConfig();
+    revision.incrementalFrom = await getIncrementalBase(azureConfig);
+  }
+
+  const diffMode: DiffMode = revision.incrementalFrom
+    ? { type: "range", range: `${revision.incrementalFrom}..HEAD` }
+    : { type: "branch", compareBranch: settings.compareBranch };
+  const baseRef = revision.incrementalFrom
+    ? `${revision.incrementalFrom.slice(0, 7)} (the last reviewed commit)`
+    : settings.compareBranch;
+
+  // Get git diff
+  const diffSpinner = ora("Getting changes...").start();
+  const gitDiff = await getGitDiff(getDiffArgs(diffMode));
+  diffSpinner.succeed("Changes retrieved");
+
+  return {
+    gitDiff,
+    baseRef,
+    revision,
+    azureConfig,
+    diffMode,
+    // Pipelines check out the PR as a detached merge commit
+    branch: pipeline?.sourceBranch || (await getCurrentBranch()),
+    author: await getCommitAuthor(),
+  };
+}
+
+/**
+ * Review mode picked with --staged, --working-tree, --range or --commit
+ */
+function getLocalDiffMode(): DiffMode | null {
+  if (options.staged) {
+    return { type: "staged" };
+  }
+  if (options.workingTree) {
+    return { type: "workingTree" };
+  }
+  if (options.range) {
+    return { type: "range", range: options.range };
+  }
+  if (options.commit) {
+    return { type: "commit", sha: options.commit };
+  }
+  return null;
+}
+
+async function getLocalModeReviewInput(mode: DiffMode): Promise<ReviewInput> {
+  if (options.incremental) {
+    logger.log(
+      "⚠️  --incremental only applies to branch reviews, reviewing the selected changes"
+    );
+  }
+
+  const descriptions: Record<DiffMode["type"], string> = {
+    branch: "",
+    staged: "HEAD (staged changes only)",
+    workingTree: "HEAD (all uncommitted changes in the working tree)",
+    range: `the start of the range ${options.range}`,
+    commit: `the parent of commit ${options.commit}`,
+  };
+  const baseRef = descriptions[mode.type];
+  logger.log(`Comparing against: ${baseRef}`);
+
+  const diffSpinner = ora("Getting changes...").start();
+  const gitDiff = await getGitDiff(getDiffArgs(mode));
+  diffSpinner.succeed("Changes retrieved");
+
+  const headRef = mode.type === "commit" ? mode.sha : "HEAD";
+  const headSha = await getCommitSha(headRef);
+
+  return {
+    gitDiff,
+    baseRef,
+    revision: { headSha, mergeBase: headSha },
+    skipPostReason: "local review modes are not attached to a PR",
+    diffMode: mode,
+    branch: await getCurrentBranch(),
+    author: await getCommitAuthor(headRef),
+  };
+}
+
+async function getRemoteReviewInput(): Promise<ReviewInput> {
+  if (!options.azurePr) {
+    console.error("❌ --remote requires --azure-pr <id>");
+    process.exit(1);
+  }
+
+  const azureConfig = await getRemoteAzureConfig(options.azurePr);
+  if (!azureConfig) {
+    console.error(
+      "❌ Remote mode needs Azure DevOps credentials and the organization, project and repository (--azure-org, --azure-project, --azure-repo or AZURE_DEVOPS_ORG, AZURE_DEVOPS_PROJECT, AZURE_DEVOPS_REPO)"
+    );
+    process.exit(1);
+  }
+
+  if (options.incremental) {
+    logger.log(
+      "⚠️  --incremental is not supported with --remote, running a full review"
+    );
+  }
+
+  logger.log(
+    `Reviewing PR #${azureConfig.prId} in ${azureConfig.org}/${azureConfig.project}/${azureConfig.repo}`
+  );
+
+  const remoteInfo: GitRemoteInfo = {
+    collectionUrl: getCollectionUrl(azureConfig),
+    organization: azureConfig.org,
+    project: azureConfig.project,
+    repository: azureConfig.repo,
+  };
+  const { token, tokenType } = await getAccessToken(azureConfig);
+  const connection = createConnection(
+    getApiBaseUrl(azureConfig),
+    token,
+    tokenType
+  );
+
+  const diffSpinner = ora("Fetching changes from Azure DevOps...").start();
+  const remote = await fetchRemotePullRequestDiff(
+    connection,
+    remoteInfo,
+    parseInt(azureConfig.prId, 10)
+  );
+  const gitDiff = filterDiff(
+    remote.diff,
+    settings.lockFiles,
+    settings.ignoreGlobs
+  );
+  diffSpinner.succeed(`Fetched ${remote.files.length} changed files`);
+
+  if (options.materialize) {
+    claudeWorkDir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-review-"));
+    // process.exit() skips finally blocks, e.g. on failures and quality gates
+    process.once("exit", removeMaterializedFiles);
+    const written = materializeFiles(remote.files, claudeWorkDir);
+    logger.log(`Wrote ${written} changed files to ${claudeWorkDir}`);
+  }
+
+  const targetBranch = remote.pullRequest.targetRefName?.replace(
+    "refs/heads/",
+    ""
+  );
+
+  return {
+    gitDiff,
+    baseRef: targetBranch || remote.mergeBase.slice(0, 7),
+    revision: { headSha: remote.headSha, mergeBase: remote.mergeBase },
+    azureConfig,
+    branch: remote.pullRequest.sourceRefName?.replace("refs/heads/", ""),
+    author: remote.pullRequest.createdBy?.displayName,
+  };
+}
+
+/**
+ * Azure DevOps config for remote mode: flags win over environment variables,
+ * which win over the git remote of the current directory (if any)
+ */
+async function getRemoteAzureConfig(prId: string): Promise<AzureConfig | null> {
+  let remoteInfo: GitRemoteInfo | null = null;
+
+  try {
+    if (await isGitRepository()) {
+      remoteInfo = parseAzureDevOpsRemote(await getRemoteUrl());
+    }
+  } catch (error) {
+    logger.debug(
+      "No Azure DevOps git remote found: %s",
+      (error as Error).message
+    );
+  }
+
+  const configuredUrl = getConfiguredCollectionUrl();
+  const org =
+    options.azureOrg ||
+    process.env.AZURE_DEVOPS_ORG ||
+    (configuredUrl ? getCollectionName(configuredUrl) : undefined) ||
+    remoteInfo?.organization;
+  const project =
+    options.azureProject ||
+    process.env.AZURE_DEVOPS_PROJECT ||
+    remoteInfo?.project;
+  const repo =
+    options.azureRepo ||
+    process.env.AZURE_DEVOPS_REPO ||
+    remoteInfo?.repository;
+
+  if (!org || !project || !repo) {
+    return null;
+  }
+
+  // The remote's collection only applies when the org wasn't overridden
+  const collectionUrl =
+    configuredUrl ||
+    (remoteInfo?.organization === org
+      ? remoteInfo.collectionUrl
+      : getCloudCollectionUrl(org));
+
+  const auth = await getAzureAuth();
+  return auth
+    ? withApiBaseUrl({ ...auth, collectionUrl, org, project, repo, prId })
+    : null;
+}
+
+/**
+ * Collection URL from --azure-collection-url or AZURE_DEVOPS_COLLECTION_URL
+ */
+function getConfiguredCollectionUrl(): string | null {
+  const value =
+    options.azureCollectionUrl || process.env.AZURE_DEVOPS_COLLECTION_URL;
+  if (!value) {
+    return null;
+  }
+
+  const collectionUrl = parseCollectionUrl(value);
+  if (!collectionUrl) {
+    throw new Error(`Invalid Azure DevOps collection URL: ${value}`);
+  }
+  return collectionUrl;
+}
+
+function getRepositoryRoot(): string {
+  try {
+    return execSync("git rev-parse --show-toplevel", {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return process.cwd();
+  }
+}
+
+async function getIncrementalBase(
+  config: AzureConfig | null
+): Promise<string | undefined> {
+  if (!config) {
+    logger.log("⚠️  No Azure DevOps PR detected, running a full review");
+    return undefined;
+  }
+
+  const existingComment = await findExistingClaudeComment(config);
+  const metadata = existingComment
+    ? parseReviewMetadata(existingComment.existingContent)
+    : null;
+
+  if (!metadata) {
+    logger.log("No previous review found, running a full review");
+    return undefined;
+  }
+
+  if (!(await isAncestorOfHead(metadata.headSha))) {
+    logger.log(
+      `⚠️  Last reviewed commit ${metadata.headSha.slice(0, 7)} is no longer in the branch history (force-push or rebase?), running a full review`
+    );
+    return undefined;
+  }
+
+  logger.log(
+    `Reviewing commits since iteration ${metadata.iteration} (${metadata.headSha.slice(0, 7)})`
+  );
+  return metadata.headSha;
+}
+
+async function getGitDiff(diffArgs: string[]): Promise<string> {
+  try {
+    // Arguments are passed as they are, so ranges never reach a shell
+    const result = await $({
+      maxBuffer: 50 * 1024 * 1024, // 50MB buffer
+      stripFinalNewline: false,
+    })`git diff ${diffArgs}`;
+
+    return filterDiff(result.stdout, settings.lockFiles, settings.ignoreGlobs);
+  } catch (error) {
+    throw new Error(`Failed to get git diff: ${(error as Error).message}`);
+  }
+}
+
+// Input tokens of the summary pass for each reviewed batch
+const SUMMARY_TOKENS_PER_BATCH = 1000;
+
+/**
+ * Estimated input tokens of every Claude request the review will make
+ */
+function estimateRunTokens(diff: string): number[] {
+  // Everything but the diff: the prompt, context template and output schema
+  const overhead = (promptContent: string) =>
+    estimateTokens(promptContent) +
+    estimateTokens(getOutputInstructions("claude-review.json")) +
+    100;
+
+  if (settings.lenses.length > 0) {
+    return settings.lenses.map(
+      (lens) => overhead(LENSES[lens].prompt) + estimateTokens(diff)
+    );
+  }
+
+  const promptTokens = overhead(readPromptFile(settings.promptFile));
+  const batches = settings.chunked
+    ? createDiffBatches(diff, settings.maxBatchTokens, settings.chunkBy)
+    : [];
+
+  if (batches.length <= 1) {
+    return [promptTokens + estimateTokens(diff)];
+  }
+
+  return [
+    ...batches.map((batch) => promptTokens + batch.estimatedTokens),
+    promptTokens + batches.length * SUMMARY_TOKENS_PER_BATCH,
+  ];
+}
+
+function logEstimate(estimate: CostEstimate): void {
+  logger.log(
+    `💰 Estimated input: ~${estimate.inputTokens.toLocaleString()} tokens in ${estimate.runs} request${estimate.runs === 1 ? "" : "s"} (largest ~${estimate.largestRunTokens.toLocaleString()}), ~$${estimate.costUsd.toFixed(4)} at ${estimate.model} prices`
+  );
+}
+
+/**
+ * Estimate the review cost and enforce --max-cost and --max-input-tokens
+ * With --over-budget auto, oversized requests switch to chunked mode and an
+ * expensive review drops the diff context lines (summary mode) before aborting
+ */
+function applyBudget(gitDiff: string): {
+  diff: string;
+  estimate: CostEstimate;
+} {
+  let diff = gitDiff;
+  let estimate = estimateReviewCost(estimateRunTokens(diff), settings.model);
+  logEstimate(estimate);
+
+  const { maxCost, maxInputTokens } = settings;
+  const overInputTokens = () =>
+    maxInputTokens !== undefined && estimate.largestRunTokens > maxInputTokens;
+  const overCost = () => maxCost !== undefined && estimate.costUsd > maxCost;
+
+  if (!overInputTokens() && !overCost()) {
+    return { diff, estimate };
+  }
+
+  if (settings.overBudget === "auto") {
+    // Lenses review the whole diff, so only a plain review can be chunked
+    if (overInputTokens() && settings.lenses.length === 0) {
+      // Leave room in each request for the prompt around the batch
+      const batchTokens = maxInputTokens! - estimateRunTokens("")[0];
+      if (batchTokens > 0) {
+        settings.chunked = true;
+        settings.maxBatchTokens = Math.min(
+          settings.maxBatchTokens,
+          batchTokens
+        );
+        estimate = estimateReviewCost(estimateRunTokens(diff), settings.model);
+        logger.log(
+          `⚠️  Over the input token budget, switching to chunked mode with ${settings.maxBatchTokens.toLocaleString()} tokens per batch`
+        );
+        logEstimate(estimate);
+      }
+    }
+
+    if (overInputTokens() || overCost()) {
+      diff = removeDiffContext(diff);
+      estimate = estimateReviewCost(estimateRunTokens(diff), settings.model);
+      logger.log(
+        "⚠️  Over budget, switching to summary mode (changed lines only, without context)"
+      );
+      logEstimate(estimate);
+    }
+  }
+
+  if (overInputTokens()) {
+    throw new Error(
+      `Estimated request size of ~${estimate.largestRunTokens.toLocaleString()} input tokens is over the budget of ${maxInputTokens!.toLocaleString()}${settings.overBudget === "abort" ? ". Use --over-budget auto to switch to chunked mode" : ""}`
+    );
+  }
+  if (overCost()) {
+    throw new Error(
+      `Estimated cost of $${estimate.costUsd.toFixed(4)} is over the budget of $${maxCost!.toFixed(2)}${settings.overBudget === "abort" ? ". Use --over-budget auto to switch to summary mode" : ""}`
+    );
+  }
+
+  return { diff, estimate };
+}
+
+function readPromptFile(promptFile: string): string {
+  if (!fs.existsSync(promptFile)) {
+    throw new Error(`Prompt file not found: ${promptFile}`);
+  }
+  return fs.readFileSync(promptFile, "utf8");
+}
+
+async function runClaudeCode(
+  promptContent: string,
+  gitDiff: string,
+  baseRef: string,
+  model: string | undefined,
+  reviewFile: string
+): Promise<BackendResult | null> {
+  try {
+    // Build context inline
+    const contextContent = `# Code Review Context
+
+## Changes Overview
+Comparing current branch against: \`${baseRef}\`
+
+## Git Diff
+\`\`\`diff
+${gitDiff}
+\`\`\`
+
+Please review these changes according to the prompt instructions.
+
+Some notes:
+- don't leave a grade or rating in the review
+`;
+
+    const fullPrompt = `${promptContent}\n\n${contextContent}\n\n${getOutputInstructions(reviewFile)}`;
+
+    logger.log(`Git diff: ${gitDiff}`);
+    logger.log(`Compare against: ${baseRef}`);
+    logger.log(`Prompt was: ${promptContent}`);
+
+    return await runClaude(fullPrompt, reviewFile, model);
+  } catch (error) {
+    throw new Error(`Claude execution failed: ${(error as Error).message}`);
+  }
+}
+
+function getOutputInstructions(reviewFile: string): string {
+  const schema = `\`\`\`json
+${JSON.stringify(REVIEW_OUTPUT_SCHEMA, null, 2)}
+\`\`\``;
+  const guidance = `Put the overall assessment in "summary" and each specific issue in "findings". Set "file", "startLine" and "endLine" whenever a finding refers to specific lines, and only reference lines that appear in the diff.`;
+
+  // Without tools the review comes back as the response text
+  if (!backend.hasTools) {
+    return `Respond with your review only, as JSON matching this schema and with no other text:
+
+${schema}
+
+${guidance}`;
+  }
+
+  // Outside a checkout Claude runs elsewhere, so give it the full path
+  const target = claudeWorkDir
+    ? `"${reviewFile}"`
+    : `"${path.basename(reviewFile)}" in the current directory`;
+
+  return `Please write your review directly to a file called ${target}. The file must contain only JSON matching this schema:
+
+${schema}
+
+${guidance}`;
+}
+
+function createReviewBackend(): ReviewBackend {
+  if (settings.backend === "api") {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY is required for the api backend");
+    }
+    return createMessagesApiBackend({ baseUrl: settings.apiBaseUrl, apiKey });
+  }
+
+  return createCliBackend({
+    allowedTools: settings.allowedTools,
+    maxTurns: settings.maxTurns,
+    cwd: claudeWorkDir,
+    // Let Claude write the review file outside its working directory
+    addDirs: claudeWorkDir ? [process.cwd()] : [],
+    log: (message) => logger.log(message),
+  });
+}
+
+async function runClaude(
+  prompt: string,
+  reviewFile: string,
+  model?: string
+): Promise<BackendResult | null> {
+  const result = await backend.run({ prompt, model, reviewFile });
+  if (result) {
+    // Price the usage ourselves when the backend doesn't report a cost
+    if (result.costUsd === undefined) {
+      result.costUsd = calculateCost(result.usage, model);
+    }
+    claudeResults.push(result);
+  }
+  return result;
+}
+
+async function repairClaudeOutput(
+  reviewFile: string,
+  errors: string[],
+  model?: string
+): Promise<void> {
+  const content = fs.existsSync(reviewFile)
+    ? fs.readFileSync(reviewFile, "utf8")
+    : "";
+
+  const fileName = path.basename(reviewFile);
+  const output = backend.hasTools
+    ? `overwrite "${fileName}" with the corrected JSON. The file must contain only JSON`
+    : "respond with only the corrected JSON, with no other text,";
+  const prompt = `The review you wrote${backend.hasTools ? ` to "${fileName}"` : ""} is not valid. It failed validation with these errors:
+
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Current file content:
+
+\`\`\`
+${content}
+\`\`\`
+
+Fix the problems without changing the substance of the review and ${output} matching this schema:
+
+\`\`\`json
+${JSON.stringify(REVIEW_OUTPUT_SCHEMA, null, 2)}
+\`\`\``;
+
+  try {
+    await runClaude(prompt, reviewFile, model);
+  } catch (error) {
+    throw new Error(`Claude repair failed: ${(error as Error).message}`);
+  }
+}
+
+async function runLensReview(
+  gitDiff: string,
+  baseRef: string,
+  reviewFile: string
+): Promise<ReviewOutput> {
+  const lenses = settings.lenses;
+  const lensSpinner = ora(
+    `Running ${lenses.length} review lenses (${lenses.join(", ")})...`
+  ).start();
+  let completed = 0;
+
+  const results = await mapWithConcurrency(
+    lenses,
+    lenses.length,
+    async (lens) => {
+      const lensFile = path.join(
+        process.cwd(),
+        `claude-review.lens-${lens}.json`
+      );
+      try {
+        await runClaudeCode(
+          LENSES[lens].prompt,
+          gitDiff,
+          baseRef,
+          settings.model,
+          lensFile
+        );
+        const output = await loadReviewOutput(lensFile, true);
+        completed++;
+        lensSpinner.text = `Completed ${completed}/${lenses.length} lenses...`;
+        return { lens, output };
+      } finally {
+        if (fs.existsSync(lensFile)) {
+          fs.unlinkSync(lensFile);
+        }
+      }
+    }
+  );
+  lensSpinner.succeed(`Completed ${lenses.length} review lenses`);
+
+  const reviewOutput = combineLensOutputs(results);
+
+  // Keep the merged review on disk so --use-existing-review can reuse it
+  fs.writeFileSync(reviewFile, JSON.stringify(reviewOutput, null, 2));
+
+  return reviewOutput;
+}
+
+async function runChunkedReview(
+  gitDiff: string,
+  baseRef: string,
+  reviewFile: string,
+  diffMode?: DiffMode
+): Promise<ReviewOutput> {
+  const batches = createDiffBatches(
+    gitDiff,
+    settings.maxBatchTokens,
+    settings.chunkBy
+  );
+
+  logger.log(
+    `📦 Split ~${estimateTokens(gitDiff).toLocaleString()} tokens of changes into ${batches.length} batches`
+  );
+
+  // A diff that fits in one batch doesn't need a merge or summary pass
+  if (batches.length <= 1) {
+    const claudeSpinner = ora("Running Claude review...").start();
+    await runClaudeCode(
+      readPromptFile(settings.promptFile),
+      gitDiff,
+      baseRef,
+      settings.model,
+      reviewFile
+    );
+    claudeSpinner.succeed("Claude review completed");
+    return loadReviewOutput(reviewFile, true);
+  }
+
+  const promptContent = readPromptFile(settings.promptFile);
+  const batchSpinner = ora(
+    `Reviewing ${batches.length} batches (concurrency ${settings.concurrency})...`
+  ).start();
+  let completed = 0;
+
+  const batchOutputs = await mapWithConcurrency(
+    batches,
+    settings.concurrency,
+    async (batch, index) => {
+      const batchFile = path.join(
+        process.cwd(),
+        `claude-review.batch-${index + 1}.json`
+      );
+      try {
+        await runClaudeCode(
+          promptContent,
+          batch.diff,
+          baseRef,
+          settings.model,
+          batchFile
+        );
+        const output = await loadReviewOutput(batchFile, true);
+        completed++;
+        batchSpinner.text = `Reviewed ${completed}/${batches.length} batches...`;
+        return output;
+      } finally {
+        if (fs.existsSync(batchFile)) {
+          fs.unlinkSync(batchFile);
+        }
+      }
+    }
+  );
+  batchSpinner.succeed(`Reviewed ${batches.length} batches`);
+
+  const findings = mergeFindings(batchOutputs.map((output) => output.findings));
+
+  const summarySpinner = ora("Running cross-cutting summary pass...").start();
+  await runSummaryPass(
+    batches,
+    batchOutputs,
+    findings,
+    baseRef,
+    reviewFile,
+    diffMode
+  );
+  const summaryOutput = await loadReviewOutput(reviewFile, true);
+  summarySpinner.succeed("Summary pass completed");
+
+  const reviewOutput: ReviewOutput = {
+    summary: summaryOutput.summary,
+    findings: mergeFindings([findings, summaryOutput.findings]),
+  };
+
+  // Keep the merged review on disk so --use-existing-review can reuse it
+  fs.writeFileSync(reviewFile, JSON.stringify(reviewOutput, null, 2));
+
+  return reviewOutput;
+}
+
+/**
+ * Where Claude can look at the code beyond the diff in its prompt
+ */
+function getCodeAccessHint(diffMode?: DiffMode): string {
+  if (diffMode) {
+    return ` You can use \`git diff ${getDiffArgs(diffMode).join(" ")}\` and the Read and Grep tools to check the code.`;
+  }
+  // Remote mode has no checkout, at most the materialized changed files
+  return claudeWorkDir
+    ? " The new versions of the changed files are in the working directory; you can use the Read and Grep tools to check them."
+    : " There is no checkout of the code, so work from the batch summaries and findings above.";
+}
+
+async function runSummaryPass(
+  batches: DiffBatch[],
+  batchOutputs: ReviewOutput[],
+  findings: ReviewOutput["findings"],
+  baseRef: string,
+  reviewFile: string,
+  diffMode?: DiffMode
+): Promise<void> {
+  const batchSummaries = batches
+    .map(
+      (batch, index) =>
+        `### Batch ${index + 1}\n\nFiles: ${batch.files.join(", ")}\n\n${batchOutputs[index].summary}`
+    )
+    .join("\n\n");
+
+  const findingList = findings
+    .map(
+      (finding) =>
+        `- [${finding.id}] ${finding.severity} ${finding.category}${finding.file ? ` ${finding.file}` : ""}: ${finding.title}`
+    )
+    .join("\n");
+
+  const prompt = `The changes on this branch (compared against \`${baseRef}\`) were too large to review at once, so they were reviewed in ${batches.length} batches.
+
+## Batch Summaries
+
+${batchSummaries}
+
+## Findings So Far
+
+${findingList || "None"}
+
+Write an overall summary of the whole change set. Only add findings for cross-cutting issues that span several batches, such as inconsistent API changes, missing call-site updates or duplicated logic; do not repeat the findings listed above.${backend.hasTools ? getCodeAccessHint(diffMode) : ""}
+
+${getOutputInstructions(reviewFile)}`;
+
+  try {
+    await runClaude(prompt, reviewFile, settings.model);
+  } catch (error) {
+    throw new Error(`Claude summary pass failed: ${(error as Error).message}`);
+  }
+}
+
+function getLedgerFile(): string {
+  return typeof options.ledger === "string"
+    ? options.ledger
+    : process.env.CLAUDE_REVIEW_LEDGER || DEFAULT_LEDGER_FILE;
+}
+
+function recordUsage(
+  totals: BackendResult,
+  reviewOutput: ReviewOutput,
+  reviewDiff: string,
+  input: ReviewInput
+): void {
+  const ledgerFile = getLedgerFile();
+
+  try {
+    appendLedgerRecord(ledgerFile, {
+      timestamp: new Date().toISOString(),
+      repo: input.azureConfig?.repo || path.basename(getRepositoryRoot()),
+      branch: input.branch,
+      prId: input.azureConfig?.prId || options.azurePr,
+      author: input.author,
+      model: settings.model || "default",
+      backend: backend.name,
+      diffTokens: estimateTokens(reviewDiff),
+      durationMs: totals.durationMs,
+      costUsd: totals.costUsd ?? 0,
+      usage: totals.usage,
+      findings: countFindingsBySeverity(reviewOutput.findings),
+    });
+    logger.debug("Recorded usage in %s", ledgerFile);
   } catch (error) {
-    console.error(`❌ Error: ${(error as Error).message}`);
-    process.exit(1);
+    logger.log(`⚠️  ${(error as Error).message}`);
+  }
+}
+
+function showStats(statsOptions: {
+  by: StatsGroupBy;
+  since?: string;
+  csv?: true;
+  ledger?: string;
+}): void {
+  const ledgerFile =
+    statsOptions.ledger ||
+    process.env.CLAUDE_REVIEW_LEDGER ||
+    DEFAULT_LEDGER_FILE;
+  const rows = aggregateLedger(
+    readLedger(ledgerFile),
+    statsOptions.by,
+    statsOptions.since
+  );
+
+  if (statsOptions.csv) {
+    console.log(formatStatsCsv(rows, statsOptions.by));
+  } else if (rows.length === 0) {
+    console.log(`No reviews recorded in ${ledgerFile}`);
+  } else {
+    console.log(formatStatsTable(rows, statsOptions.by));
   }
 }
 
-async function getGitDiff(compareBranch: string): Promise<string> {
+async function respond(respondOptions: { maxReplies: number }): Promise<void> {
   try {
-    let fullDiff: string;
+    const configFile = loadSettings();
+    if (configFile) {
+      logger.log(`Using config file: ${configFile}`);
+    }
 
-    try {
-      // Try with execSync first with larger buffer
-      fullDiff = execSync(`git diff ${compareBranch}...HEAD`, {
-        encoding: "utf8",
-        maxBuffer: 50 * 1024 * 1024, // 50MB buffer
-      });
-    } catch (bufferError) {
-      // If buffer error, fall back to execa with streaming
-      const result = await $`git diff ${compareBranch}...HEAD`;
-      fullDiff = result.stdout;
-    }
-
-    // Define lock files to filter out
-    const lockFiles = [
-      "package-lock.json",
-      "yarn.lock",
-      "pnpm-lock.yaml",
-      "bun.lockb",
-      "Cargo.lock",
-      "Gemfile.lock",
-      "composer.lock",
-      "Pipfile.lock",
-      "poetry.lock",
-    ];
-
-    // Define ignore globs to filter out
-    const ignoreGlobs = [
-      "**/*.min.js",
-      "**/*.min.css",
-      "**/dist/**",
-      "**/build/**",
-      "**/node_modules/**",
-      "**/.git/**",
-      "**/*.log",
-      "**/*.tmp",
-      "**/*.temp",
-      "**/*.sql",
-      "**/*.db",
-    ];
-
-    // Filter out lock file changes and ignored patterns from the diff
-    const lines = fullDiff.split("\n");
-    const filteredLines: string[] = [];
-    let skipFile = false;
-    let currentFilePath = "";
-
-    for (const line of lines) {
-      // Check if this is a new file header
-      if (line.startsWith("diff --git")) {
-        // Extract file path from git diff header
-        // Format: "diff --git a/path/to/file b/path/to/file"
-        const match = line.match(/diff --git a\/(.+?) b\//);
-        currentFilePath = match ? match[1] : "";
-
-        // Check if this file should be skipped (lock files OR ignore globs)
-        const isLockFile = lockFiles.some((lockFile) =>
-          line.includes(lockFile)
-        );
-        const matchesIgnoreGlob = ignoreGlobs.some((pattern) => {
-          try {
-            return minimatch(currentFilePath, pattern);
-          } catch (error) {
-            // If minimatch fails, fall back to simple string matching
-            return currentFilePath.includes(
-              pattern.replace(/\*\*/g, "").replace(/\*/g, "")
-            );
-          }
-        });
+    const azureConfig = await getAzureDevOpsConfig();
+    if (!azureConfig) {
+      throw new Error(
+        "No Azure DevOps PR detected. Use --azure-pr <id> or set AZURE_DEVOPS_PR_ID"
+      );
+    }
 
-        skipFile = isLockFile || matchesIgnoreGlob;
+    const allThreads = await listPullRequestThreads(azureConfig);
+    const threads = findThreadsAwaitingReply(
+      allThreads,
+      respondOptions.maxReplies
+    );
+    if (threads.length === 0) {
+      logger.log("✅ No review threads are waiting for a reply");
+      return;
+    }
+
+    backend = createReviewBackend();
+    const root = getRepositoryRoot();
+    const replyFile = path.join(process.cwd(), "claude-reply.md");
+
+    // Findings on removed lines are numbered in the version the PR started from
+    const baseRef =
+      parseReviewMetadata(
+        findReviewThread(allThreads, await getReviewerId(azureConfig))
+          ?.comments?.[0]?.content || ""
+      )?.mergeBase || settings.compareBranch;
+
+    for (const thread of threads) {
+      const finding = parseThreadFinding(thread);
+      if (!finding?.file || finding.startLine === undefined) {
+        continue;
       }
 
-      // Include line if we're not skipping this file
-      if (!skipFile) {
-        filteredLines.push(line);
+      const filePath = path.join(root, finding.file);
+      const content =
+        finding.side === "left"
+          ? await getFileAtRevision(baseRef, finding.file)
+          : fs.existsSync(filePath)
+            ? fs.readFileSync(filePath, "utf8")
+            : null;
+      const code =
+        content === null
+          ? null
+          : formatCodeContext(content, finding.startLine, finding.endLine);
+
+      const spinner = ora(`Replying to thread #${thread.id}...`).start();
+      fs.rmSync(replyFile, { force: true });
+      await runClaude(
+        `${buildReplyPrompt(thread, finding, code)}\n\n${getReplyInstructions(replyFile)}`,
+        replyFile,
+        settings.model
+      );
+
+      const reply = fs.existsSync(replyFile)
+        ? fs.readFileSync(replyFile, "utf8").trim()
+        : "";
+      fs.rmSync(replyFile, { force: true });
+      if (!reply) {
+        spinner.fail(`Claude didn't write a reply for thread #${thread.id}`);
+        continue;
       }
+
+      const comments = thread.comments!;
+      await replyToThread(
+        azureConfig,
+        thread.id,
+        comments[comments.length - 1].id,
+        embedReplyMarker(reply)
+      );
+      spinner.succeed(`Replied to thread #${thread.id}: ${finding.title}`);
     }
 
-    return filteredLines.join("\n");
+    if (claudeResults.length > 0) {
+      displayClaudeMetrics(sumBackendResults(claudeResults));
+    }
   } catch (error) {
-    throw new Error(`Failed to get git diff: ${(error as Error).message}`);
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(EXIT_CODES.reviewFailed);
   }
 }
 
-async function runClaudeCode(
-  promptFile: string,
-  gitDiff: string,
-  compareBranch: string,
-  model?: string
-): Promise<string> {
-  const reviewFile = path.join(process.cwd(), "claude-review.md");
+function getReplyInstructions(replyFile: string): string {
+  // Without tools the reply comes back as the response text
+  if (!backend.hasTools) {
+    return "Respond with the reply only.";
+  }
+  return `Please write the reply only, as markdown, to a file called "${path.basename(replyFile)}" in the current directory.`;
+}
 
+function applySuggestions(applyOptions: {
+  reviewFile: string;
+  dryRun?: true;
+}): void {
   try {
-    // Check if prompt file exists
-    if (!fs.existsSync(promptFile)) {
-      throw new Error(`Prompt file not found: ${promptFile}`);
+    if (!fs.existsSync(applyOptions.reviewFile)) {
+      throw new Error(
+        `${applyOptions.reviewFile} not found. Run a review first.`
+      );
     }
 
-    // Read the prompt content
-    const promptContent = fs.readFileSync(promptFile, "utf8");
+    const result = parseReviewOutput(
+      fs.readFileSync(applyOptions.reviewFile, "utf8")
+    );
+    if (!result.output) {
+      throw new Error(
+        `Invalid review output:\n- ${result.errors.join("\n- ")}`
+      );
+    }
 
-    // Build context inline
-    const contextContent = `# Code Review Context
+    const root = getRepositoryRoot();
+    const plan = planSuggestions(result.output.findings, (file) => {
+      const filePath = path.join(root, file);
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null;
+    });
 
-## Changes Overview
-Comparing current branch against: \`${compareBranch}\`
+    if (plan.results.length === 0) {
+      console.log("No suggestions in the review");
+      return;
+    }
 
-## Git Diff
-\`\`\`diff
-${gitDiff}
-\`\`\`
+    if (applyOptions.dryRun) {
+      console.log(formatSuggestionDiff(plan));
+    } else {
+      for (const [file, { after }] of plan.files) {
+        fs.writeFileSync(path.join(root, file), after);
+      }
+    }
 
-Please review these changes according to the prompt instructions.
+    for (const { finding, applied, reason } of plan.results) {
+      const verb = applyOptions.dryRun ? "would apply" : "applied";
+      console.log(
+        applied
+          ? `✅ [${finding.id}] ${verb}: ${finding.title}`
+          : `❌ [${finding.id}] rejected, ${reason}: ${finding.title}`
+      );
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
 
-Some notes:
-- don't leave a grade or rating in the review
-`;
+async function serve(serveOptions: {
+  port: number;
+  secret?: string;
+  cacheDir: string;
+  debounce: number;
+}): Promise<void> {
+  if (!serveOptions.secret) {
+    console.error(
+      "❌ Error: serve needs --secret or CLAUDE_REVIEW_WEBHOOK_SECRET"
+    );
+    process.exit(1);
+  }
+  const credential = await getDefaultCredential();
+  if (!credential) {
+    console.error(`❌ Error: ${NO_CREDENTIALS_MESSAGE}`);
+    process.exit(1);
+  }
+  logger.log(`Using Azure DevOps credentials from ${credential.source}`);
+
+  // Jobs send the credentials to the collection, so it can't come from payloads
+  let collectionUrl: string | null = null;
+  const org = options.azureOrg || process.env.AZURE_DEVOPS_ORG;
+  try {
+    collectionUrl =
+      getConfiguredCollectionUrl() || (org ? getCloudCollectionUrl(org) : null);
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  if (!collectionUrl) {
+    console.error(
+      "❌ Error: serve needs the collection to review, set with --azure-collection-url, --azure-org, AZURE_DEVOPS_COLLECTION_URL or AZURE_DEVOPS_ORG"
+    );
+    process.exit(1);
+  }
+  logger.log(`Reviewing pull requests in ${collectionUrl}`);
+
+  // Review options given before the serve command apply to every job
+  const argv = process.argv.slice(2);
+  const reviewArgs = argv.slice(0, argv.indexOf("serve"));
 
-    const fullPrompt = `${promptContent}\n\n${contextContent}\n\nPlease write your review directly to a file called "claude-review.md" in the current directory.`;
+  const queue = createJobQueue(
+    (job) => runReviewJob(job, credential, serveOptions.cacheDir, reviewArgs),
+    serveOptions.debounce * 1000
+  );
+  const server = createWebhookServer(queue, serveOptions.secret, collectionUrl);
+  server.listen(serveOptions.port, () => {
+    logger.log(`Listening for service hooks on port ${serveOptions.port}`);
+  });
+}
 
-    // Find Claude command location
-    let claudePath = "claude";
+async function serveFakeAdo(fakeOptions: {
+  port: number;
+  seed?: string;
+}): Promise<void> {
+  let seed: FakeAdoSeed = { pullRequests: [{ pullRequestId: 1 }] };
+  if (fakeOptions.seed) {
     try {
-      claudePath = execSync("which claude", { encoding: "utf8" }).trim();
+      seed = JSON.parse(fs.readFileSync(fakeOptions.seed, "utf8"));
     } catch (error) {
-      // Try common locations
-      const commonPaths = [
-        process.env.HOME + "/.claude/local/claude",
-        "/usr/local/bin/claude",
-        process.env.HOME + "/.bun/bin/claude",
-        process.env.HOME + "/.local/bin/claude",
-      ];
-
-      for (const path of commonPaths) {
-        if (fs.existsSync(path)) {
-          claudePath = path;
-          break;
-        }
-      }
+      console.error(`❌ Error: Failed to read ${fakeOptions.seed}: ${error}`);
+      process.exit(1);
     }
+  }
 
-    logger.log(`Using Claude at: ${claudePath}`);
-    logger.log(`Prompt file: ${promptFile}`);
-    logger.log(`Git diff: ${gitDiff}`);
-    logger.log(`Compare branch: ${compareBranch}`);
-    logger.log(`Prompt was: ${promptContent}`);
-
-    // Run Claude with JSON output to capture cost and usage metrics
-    const args = [
-      "--allowedTools",
-      "Bash(git *) Read Write Grep Glob TodoWrite",
-      "--output-format",
-      "json",
-
-      "--max-turns",
-      "5",
-    ];
-
-    // Add model if specified
-    if (model) {
-      args.push("--model", model);
-    }
+  const state = createFakeAdoState(seed);
+  const server = createFakeAdoServer(state);
+  server.on("request", (request: http.IncomingMessage) => {
+    logger.log(`${request.method} ${request.url}`);
+  });
+  server.listen(fakeOptions.port, "127.0.0.1", () => {
+    logger.log(
+      `Fake Azure DevOps running at http://127.0.0.1:${fakeOptions.port}/${state.organization}`
+    );
+  });
+}
 
-    logger.log(`Running: ${claudePath} ${args.join(" ")}`);
+/**
+ * Check out the PR's source commit in the cached clone of its repository and
+ * run a review there, posting to the PR like a run from the command line
+ * The checkout's config file comes from the PR branch, so it can't change the
+ * tools, prompt or backend
+ */
+async function runReviewJob(
+  job: ReviewJob,
+  credential: AzureCredential,
+  cacheDir: string,
+  reviewArgs: string[]
+): Promise<void> {
+  const { event } = job;
+  const { token, tokenType } = await credential.getToken();
+  const azureConfig: AzureConfig = {
+    token,
+    tokenType,
+    collectionUrl: event.collectionUrl,
+    org: event.org,
+    project: event.project,
+    repo: event.repo,
+    prId: String(event.prId),
+  };
+  const targetBranch = event.targetRef.replace("refs/heads/", "");
+  const dir = getCloneDirectory(cacheDir, event);
 
-    // Use execa to properly handle arguments with special characters
-    const result = await $({
-      input: fullPrompt, // "/review" enough? need to test
-      env: { ...process.env },
-    })`${claudePath} ${args}`;
+  logger.log(
+    `Job ${job.id}: reviewing PR #${event.prId} in ${event.org}/${event.project}/${event.repo} at ${event.sourceCommit.slice(0, 7)}`
+  );
 
-    const output = result.stdout;
+  // Pass the token in the environment so it isn't in the process list
+  const git = $({
+    cwd: dir,
+    env: {
+      GIT_TERMINAL_PROMPT: "0",
+      GIT_CONFIG_COUNT: "1",
+      GIT_CONFIG_KEY_0: "http.extraHeader",
+      GIT_CONFIG_VALUE_0: `Authorization: ${await getAuthorizationHeader(azureConfig)}`,
+    },
+  });
 
-    // Parse the JSON output to extract cost and usage information
-    try {
-      const result: ClaudeResult = JSON.parse(output);
-      displayClaudeMetrics(result);
-    } catch (parseError) {
-      logger.log("⚠️  Could not parse Claude metrics from output");
+  try {
+    if (!fs.existsSync(path.join(dir, ".git"))) {
+      fs.mkdirSync(dir, { recursive: true });
+      await git`git clone --no-checkout ${getCloneUrl(event)} .`;
     }
-
-    return reviewFile;
+    await git`git fetch --force -- origin ${event.targetRef}:refs/remotes/origin/${targetBranch} ${event.sourceRef}`;
+    await git`git checkout --force --detach ${event.sourceCommit}`;
+    await git`git clean -ffdx`;
   } catch (error) {
-    throw new Error(`Claude execution failed: ${(error as Error).message}`);
+    throw new Error(`Failed to update the clone in ${dir}: ${error}`);
+  }
+
+  const result = await $({
+    cwd: dir,
+    stdio: "inherit",
+    reject: false,
+  })`${process.execPath} ${process.argv[1]} ${reviewArgs} --directory ${dir} --compare-branch origin/${targetBranch} --azure-collection-url ${event.collectionUrl} --azure-org ${event.org} --azure-project ${event.project} --azure-repo ${event.repo} --azure-pr ${azureConfig.prId} --use-env-vars --untrusted-config --post`;
+
+  // Blocking findings and empty diffs are still completed reviews
+  const completed: (number | undefined)[] = [
+    EXIT_CODES.success,
+    EXIT_CODES.blockingFindings,
+    EXIT_CODES.nothingToReview,
+  ];
+  if (!completed.includes(result.exitCode)) {
+    throw new Error(
+      result.exitCode === undefined
+        ? `Review was stopped by ${result.signal}`
+        : `Review exited with code ${result.exitCode}`
+    );
   }
+  logger.log(`Job ${job.id}: review finished with code ${result.exitCode}`);
 }
 
-function displayClaudeMetrics(result: ClaudeResult): void {
-  if (
-    result &&
-    result.duration_ms &&
-    result.total_cost_usd !== undefined &&
-    result.usage
-  ) {
-    logger.log("\n📊 Claude Usage Metrics:");
-    logger.log(`   Duration: ${result.duration_ms}ms`);
-    logger.log(`   Total Cost: $${result.total_cost_usd.toFixed(6)}`);
+function displayClaudeMetrics(result: BackendResult): void {
+  logger.log("\n📊 Claude Usage Metrics:");
+  logger.log(`   Duration: ${result.durationMs}ms`);
+  if (result.costUsd !== undefined) {
+    logger.log(`   Total Cost: $${result.costUsd.toFixed(6)}`);
+  }
 
-    const usage = result.usage;
-    if (usage.input_tokens) {
-      logger.log(`   Input Tokens: ${usage.input_tokens.toLocaleString()}`);
-    }
-    if (usage.cache_read_input_tokens) {
-      logger.log(
-        `   Cache Read Tokens: ${usage.cache_read_input_tokens.toLocaleString()}`
-      );
-    }
-    if (usage.output_tokens) {
-      logger.log(`   Output Tokens: ${usage.output_tokens.toLocaleString()}`);
-    }
+  const usage = result.usage;
+  if (usage.inputTokens) {
+    logger.log(`   Input Tokens: ${usage.inputTokens.toLocaleString()}`);
+  }
+  if (usage.cacheReadInputTokens) {
+    logger.log(
+      `   Cache Read Tokens: ${usage.cacheReadInputTokens.toLocaleString()}`
+    );
+  }
+  if (usage.outputTokens) {
+    logger.log(`   Output Tokens: ${usage.outputTokens.toLocaleString()}`);
   }
 }
 
-function processClaudeOutput(reviewFile: string): string {
+function processClaudeOutput(reviewFile: string): ReviewValidationResult {
   if (!fs.existsSync(reviewFile)) {
     throw new Error(
       "Claude did not create the review file. Make sure Claude has write permissions."
@@ -450,16 +2196,122 @@ function processClaudeOutput(reviewFile: string): string {
     const reviewContent = fs.readFileSync(reviewFile, "utf8");
 
     if (!reviewContent.trim()) {
-      throw new Error("Review file is empty");
+      return { errors: ["Review file is empty"] };
     }
 
-    return reviewContent;
+    return parseReviewOutput(reviewContent);
   } catch (error) {
     throw new Error(`Failed to read review file: ${(error as Error).message}`);
   }
 }
 
+async function loadReviewOutput(
+  reviewFile: string,
+  allowRepair: boolean
+): Promise<ReviewOutput> {
+  let result = processClaudeOutput(reviewFile);
+
+  // Give Claude one chance to fix malformed output before failing
+  if (!result.output && allowRepair) {
+    const repairSpinner = ora(
+      `Review output is invalid (${result.errors.length} errors), asking Claude to repair it...`
+    ).start();
+    await repairClaudeOutput(reviewFile, result.errors, settings.model);
+    result = processClaudeOutput(reviewFile);
+
+    if (result.output) {
+      repairSpinner.succeed("Review output repaired");
+    } else {
+      repairSpinner.fail("Review output is still invalid");
+    }
+  }
+
+  if (!result.output) {
+    throw new Error(`Invalid review output:\n- ${result.errors.join("\n- ")}`);
+  }
+
+  return result.output;
+}
+
+const NO_CREDENTIALS_MESSAGE =
+  "No Azure DevOps credentials found. Set AZURE_DEVOPS_TOKEN, run az login, or configure a service principal or managed identity";
+
+/**
+ * Token fields of an Azure config from the credential chain, or null when no
+ * credential is available
+ */
+async function getAzureAuth(): Promise<Pick<
+  AzureConfig,
+  "token" | "tokenType" | "credential"
+> | null> {
+  const credential = await getDefaultCredential();
+  if (!credential) {
+    return null;
+  }
+
+  const { token, tokenType } = await credential.getToken();
+  logger.debug("Using Azure DevOps credentials from %s", credential.source);
+  return { token, tokenType, credential };
+}
+
 async function getAzureDevOpsConfig(): Promise<AzureConfig | null> {
+  const azureConfig = await detectAzureDevOpsConfig();
+  return azureConfig ? withApiBaseUrl(azureConfig) : null;
+}
+
+/**
+ * Send the config's API requests to --ado-base-url or the local server for
+ * --record and --replay, if any
+ */
+async function withApiBaseUrl(azureConfig: AzureConfig): Promise<AzureConfig> {
+  const apiBaseUrl = await getLocalApiUrl(getCollectionUrl(azureConfig));
+  return apiBaseUrl ? { ...azureConfig, apiBaseUrl } : azureConfig;
+}
+
+/**
+ * URL that stands in for the collection's API, starting the local servers for
+ * --record, --replay and --dry-run on first use
+ */
+function getLocalApiUrl(collectionUrl: string): Promise<string | null> {
+  localApiUrl ||= startLocalApi(collectionUrl);
+  return localApiUrl;
+}
+
+async function startLocalApi(collectionUrl: string): Promise<string | null> {
+  let apiUrl: string | null = null;
+
+  if (options.adoBaseUrl) {
+    apiUrl = parseCollectionUrl(options.adoBaseUrl);
+    if (!apiUrl) {
+      throw new Error(`Invalid Azure DevOps base URL: ${options.adoBaseUrl}`);
+    }
+  } else if (options.replay) {
+    apiUrl = (await startReplayServer(readRecording(options.replay))).url;
+  } else if (options.record) {
+    apiUrl = (await startRecordingProxy(collectionUrl, options.record)).url;
+    logger.log(`Recording Azure DevOps API calls to ${options.record}`);
+  }
+
+  // Reads still go to the API so the review sees the PR as it is
+  if (options.dryRun) {
+    const proxy = await startDryRunProxy(apiUrl || collectionUrl, printWrite);
+    return proxy.url;
+  }
+  return apiUrl;
+}
+
+/**
+ * Print a request a dry run didn't send
+ */
+function printWrite(write: PlannedWrite): void {
+  const body =
+    typeof write.body === "string"
+      ? write.body
+      : JSON.stringify(write.body, null, 2);
+  logger.log(`[dry run] ${write.method} ${write.url}\n${body}`);
+}
+
+async function detectAzureDevOpsConfig(): Promise<AzureConfig | null> {
   // If user wants to use env vars, try that first
   if (options.useEnvVars) {
     logger.debug(
@@ -468,6 +2320,19 @@ async function getAzureDevOpsConfig(): Promise<AzureConfig | null> {
     return getConfigFromEnvVars();
   }
 
+  // A pipeline PR build has the whole PR config in its variables
+  if (pipeline?.pullRequest) {
+    logger.debug("Using the Azure Pipelines PR variables");
+    const auth = await getAzureAuth();
+    if (!auth) {
+      logger.log(
+        `⚠️  ${NO_CREDENTIALS_MESSAGE}. In a pipeline, map the job token with env: SYSTEM_ACCESSTOKEN: $(System.AccessToken)`
+      );
+      return null;
+    }
+    return { ...pipeline.pullRequest, ...auth };
+  }
+
   // Try reliable git + API detection first
   try {
     logger.log("Trying git + API detection...");
@@ -524,10 +2389,10 @@ async function getConfigFromGitAndApi(): Promise<AzureConfig | null> {
   try {
     logger.debug("Starting getConfigFromGitAndApi()");
 
-    // Check if we have the required token
-    const token = process.env.AZURE_DEVOPS_TOKEN;
-    if (!token) {
-      logger.debug("AZURE_DEVOPS_TOKEN not found");
+    // Check if we have credentials
+    const auth = await getAzureAuth();
+    if (!auth) {
+      logger.debug("No Azure DevOps credentials found");
       return null;
     }
 
@@ -557,7 +2422,8 @@ async function getConfigFromGitAndApi(): Promise<AzureConfig | null> {
     if (options.azurePr) {
       logger.debug("Using user-specified PR ID: %s", options.azurePr);
       return {
-        token,
+        ...auth,
+        collectionUrl: remoteInfo.collectionUrl,
         org: remoteInfo.organization,
         project: remoteInfo.project,
         repo: remoteInfo.repository,
@@ -566,8 +2432,12 @@ async function getConfigFromGitAndApi(): Promise<AzureConfig | null> {
     }
 
     // Create connection and find PR for current branch
-    const orgUrl = getOrgUrl(remoteInfo.organization);
-    const connection = createConnection(orgUrl, token);
+    const connection = createConnection(
+      (await getLocalApiUrl(remoteInfo.collectionUrl)) ||
+        remoteInfo.collectionUrl,
+      auth.token,
+      auth.tokenType
+    );
 
     logger.debug("Searching for PR for branch: %s", currentBranch);
     const pr = await findPullRequest(connection, remoteInfo, currentBranch);
@@ -578,7 +2448,8 @@ async function getConfigFromGitAndApi(): Promise<AzureConfig | null> {
     }
 
     return {
-      token,
+      ...auth,
+      collectionUrl: remoteInfo.collectionUrl,
       org: remoteInfo.organization,
       project: remoteInfo.project,
       repo: remoteInfo.repository,
@@ -593,18 +2464,23 @@ async function getConfigFromGitAndApi(): Promise<AzureConfig | null> {
   }
 }
 
-function getConfigFromEnvVars(): AzureConfig | null {
-  const token = process.env.AZURE_DEVOPS_TOKEN;
-  const org = process.env.AZURE_DEVOPS_ORG;
-  const project = process.env.AZURE_DEVOPS_PROJECT;
-  const repo = process.env.AZURE_DEVOPS_REPO;
+async function getConfigFromEnvVars(): Promise<AzureConfig | null> {
+  const configuredUrl = getConfiguredCollectionUrl();
+  const org =
+    options.azureOrg ||
+    process.env.AZURE_DEVOPS_ORG ||
+    (configuredUrl ? getCollectionName(configuredUrl) : undefined);
+  const project = options.azureProject || process.env.AZURE_DEVOPS_PROJECT;
+  const repo = options.azureRepo || process.env.AZURE_DEVOPS_REPO;
   const prId = options.azurePr || process.env.AZURE_DEVOPS_PR_ID;
 
-  if (!token || !org || !project || !repo || !prId) {
+  if (!org || !project || !repo || !prId) {
     return null;
   }
 
-  return { token, org, project, repo, prId };
+  const collectionUrl = configuredUrl || getCloudCollectionUrl(org);
+  const auth = await getAzureAuth();
+  return auth ? { ...auth, collectionUrl, org, project, repo, prId } : null;
 }
 
 async function getConfigFromAzureCli(): Promise<AzureConfig | null> {
@@ -707,7 +2583,7 @@ async function getConfigFromAzureCli(): Promise<AzureConfig | null> {
   }
 }
 
-function parseAzurePr(pr: any): AzureConfig | null {
+async function parseAzurePr(pr: any): Promise<AzureConfig | null> {
   try {
     logger.debug("Starting parseAzurePr() for prId: %s", pr.pullRequestId);
 
@@ -723,25 +2599,28 @@ function parseAzurePr(pr: any): AzureConfig | null {
       project
     );
 
-    // Extract org from the URL - Azure DevOps URLs are like:
+    // Extract the collection from the URL - Azure DevOps URLs are like:
     // https://convergentis.visualstudio.com/projectid/_apis/git/repositories/repoid/pullRequests/prid
     logger.debug("Extracting organization from PR URL: %s", pr.url);
-    const urlMatch = pr.url.match(/https:\/\/([^\.]+)\.visualstudio\.com/);
+    const collectionUrl = getCollectionUrlFromApiUrl(
+      pr.url,
+      pr.repository.project.id
+    );
 
-    if (!urlMatch) {
+    if (!collectionUrl) {
       logger.log("⚠️  Could not extract organization from PR URL");
       logger.debug("URL pattern match failed for URL: %s", pr.url);
       return null;
     }
 
-    const org = urlMatch[1];
+    const org = getCollectionName(collectionUrl);
     logger.debug("Successfully extracted organization: %s", org);
 
-    const token = process.env.AZURE_DEVOPS_TOKEN;
+    const auth = await getAzureAuth();
 
-    if (!token) {
-      logger.log("⚠️  AZURE_DEVOPS_TOKEN environment variable is required");
-      logger.debug("AZURE_DEVOPS_TOKEN environment variable not found");
+    if (!auth) {
+      logger.log(`⚠️  ${NO_CREDENTIALS_MESSAGE}`);
+      logger.debug("No Azure DevOps credentials found");
       return null;
     }
 
@@ -752,7 +2631,7 @@ function parseAzurePr(pr: any): AzureConfig | null {
       repo,
       prId
     );
-    return { token, org, project, repo, prId };
+    return { ...auth, collectionUrl, org, project, repo, prId };
   } catch (error) {
     logger.log(`⚠️  Error parsing PR data: ${(error as Error).message}`);
     logger.debug("parseAzurePr() caught error: %s", (error as Error).message);
@@ -760,44 +2639,35 @@ function parseAzurePr(pr: any): AzureConfig | null {
   }
 }
 
+/**
+ * Identity id of the credentials, which wrote the threads of earlier runs
+ */
+async function getReviewerId(config: AzureConfig): Promise<string> {
+  const { token, tokenType } = await getAccessToken(config);
+  return getAuthenticatedUserId(
+    createConnection(getApiBaseUrl(config), token, tokenType)
+  );
+}
+
 async function findExistingClaudeComment(
   config: AzureConfig
 ): Promise<ExistingComment | null> {
-  const { token, org, project, repo, prId } = config;
-
-  const apiUrl = `https://dev.azure.com/${org}/${project}/_apis/git/repositories/${repo}/pullRequests/${prId}/threads?api-version=7.1`;
-
   try {
-    const response = await makeHttpRequest(apiUrl, {
-      method: "GET",
-      headers: {
-        Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-        Accept: "application/json",
-      },
-    });
-
-    if (response.statusCode >= 200 && response.statusCode < 300) {
-      const threads = JSON.parse(response.body);
-
-      // Look for thread with Claude Code Review comment
-      for (const thread of threads.value || []) {
-        if (thread.comments && thread.comments.length > 0) {
-          const firstComment = thread.comments[0];
-          if (
-            firstComment.content &&
-            firstComment.content.includes("# Claude Code Review")
-          ) {
-            return {
-              threadId: thread.id,
-              commentId: firstComment.id,
-              existingContent: firstComment.content,
-            };
-          }
-        }
-      }
+    const [threads, reviewerId] = await Promise.all([
+      listPullRequestThreads(config),
+      getReviewerId(config),
+    ]);
+    const thread = findReviewThread(threads, reviewerId);
+    const firstComment = thread?.comments?.[0];
+    if (!thread || !firstComment) {
+      return null;
     }
 
-    return null;
+    return {
+      threadId: thread.id,
+      commentId: firstComment.id,
+      existingContent: firstComment.content || "",
+    };
   } catch (error) {
     logger.log(
       `Could not search for existing comments: ${(error as Error).message}`
@@ -808,37 +2678,23 @@ async function findExistingClaudeComment(
 
 async function updateExistingComment(
   config: AzureConfig,
-  commentId: string,
+  threadId: number,
   newContent: string
-): Promise<HttpResponse> {
-  const { token, org, project, repo, prId } = config;
-
-  const apiUrl = `https://dev.azure.com/${org}/${project}/_apis/git/repositories/${repo}/pullRequests/${prId}/threads/${commentId}/comments/1?api-version=7.1`;
-
-  const payload = {
-    content: newContent,
-  };
+): Promise<void> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads/${threadId}/comments/1?api-version=7.1`;
 
-  const response = await makeHttpRequest(apiUrl, {
+  await adoRequest(config, apiUrl, {
+    action: "update the review comment",
     method: "PATCH",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify(payload),
+    body: { content: newContent },
   });
-
-  return response;
 }
 
 async function createNewComment(
   config: AzureConfig,
   content: string
-): Promise<HttpResponse> {
-  const { token, org, project, repo, prId } = config;
-
-  const apiUrl = `https://dev.azure.com/${org}/${project}/_apis/git/repositories/${repo}/pullRequests/${prId}/threads?api-version=7.1`;
+): Promise<void> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads?api-version=7.1`;
 
   const payload = {
     comments: [
@@ -851,108 +2707,194 @@ async function createNewComment(
     status: 1,
   };
 
-  const response = await makeHttpRequest(apiUrl, {
+  await adoRequest(config, apiUrl, {
+    action: "post the review comment",
     method: "POST",
-    headers: {
-      Authorization: `Basic ${Buffer.from(`:${token}`).toString("base64")}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-    },
-    body: JSON.stringify(payload),
+    body: payload,
   });
+}
+
+/**
+ * Resolve the inline threads from earlier runs whose findings are fixed
+ * Failures are reported and don't stop the review from being posted
+ */
+async function resolveFixedThreads(
+  reviewOutput: ReviewOutput,
+  gitDiff: string,
+  config: AzureConfig,
+  revision: ReviewRevision
+): Promise<void> {
+  try {
+    const fixed = findFixedThreads(
+      await listPullRequestThreads(config),
+      reviewOutput.findings,
+      parseUnifiedDiff(gitDiff),
+      Boolean(revision.incrementalFrom)
+    );
+
+    for (const { threadId, finding, reason } of fixed) {
+      await resolveThread(
+        config,
+        threadId,
+        formatResolutionReply(reason, revision.headSha)
+      );
+      logger.log(
+        options.dryRun
+          ? `Would resolve thread #${threadId} (${finding.title}): ${reason}`
+          : `Resolved fixed thread #${threadId}: ${finding.title}`
+      );
+    }
+  } catch (error) {
+    logger.log(
+      `⚠️  Could not resolve fixed threads: ${(error as Error).message}`
+    );
+  }
+}
+
+async function postInlineReview(
+  reviewOutput: ReviewOutput,
+  gitDiff: string,
+  config: AzureConfig
+): Promise<string> {
+  const { summary, findings } = reviewOutput;
+
+  if (findings.length === 0) {
+    return buildInlineSummary(
+      summary,
+      { posted: [], unanchored: [], waived: [] },
+      config
+    );
+  }
+
+  const spinner = ora(`Posting ${findings.length} inline comments...`).start();
+
+  // Threads from earlier runs are matched by fingerprint to avoid reposting
+  let existingThreads: PullRequestThread[] = [];
+  try {
+    existingThreads = await listPullRequestThreads(config);
+  } catch (error) {
+    logger.log(
+      `⚠️  Could not load existing threads: ${(error as Error).message}`
+    );
+  }
+
+  // Findings that can't be anchored or fail to post fall back to the summary
+  const result = await postInlineComments(
+    findings,
+    parseUnifiedDiff(gitDiff),
+    config,
+    existingThreads
+  );
+  const count = (action: string) =>
+    result.posted.filter((thread) => thread.action === action).length;
+  spinner.succeed(
+    `${options.dryRun ? "Would post" : "Posted"} ${count("created")} new inline comments, updated ${count("updated")}, kept ${count("unchanged")} (${result.unanchored.length} moved to summary, ${result.waived.length} waived)`
+  );
+
+  if (options.dryRun) {
+    for (const { finding, threadId, action } of result.posted) {
+      if (action === "updated") {
+        logger.log(
+          `Would update thread #${threadId} for [${finding.id}] ${finding.title}: an earlier review posted the same finding and its comment changed`
+        );
+      } else if (action === "unchanged") {
+        logger.log(
+          `Would keep thread #${threadId} for [${finding.id}] ${finding.title}: an earlier review posted the same comment`
+        );
+      }
+    }
+  }
 
-  return response;
+  return buildInlineSummary(summary, result, config);
 }
 
 async function postToAzureDevOps(
   reviewContent: string,
-  config: AzureConfig
+  config: AzureConfig,
+  revision: ReviewRevision
 ): Promise<void> {
   const spinner = ora("Posting to Azure DevOps...").start();
+  const { headSha, mergeBase } = revision;
 
   try {
-    let response: HttpResponse;
     let action = "posted";
+    let reason: string | undefined;
 
     // Check if we should create a new comment regardless
     if (options.newComment) {
-      const content = `# Claude Code Review\n\n${reviewContent}`;
-      response = await createNewComment(config, content);
+      const content = embedReviewMetadata(
+        `${REVIEW_HEADING}\n\n${reviewContent}`,
+        { headSha, mergeBase, iteration: 1 }
+      );
+      await createNewComment(config, content);
       action = "posted as new comment";
+      reason = "--new-comment never updates an earlier review comment";
     } else {
       // Default behavior: look for existing comment to update (sticky)
       const existingComment = await findExistingClaudeComment(config);
 
       if (existingComment) {
+        const previous = parseReviewMetadata(existingComment.existingContent);
+        const iteration = (previous?.iteration || 0) + 1;
+        const existingContent = stripReviewMetadata(
+          existingComment.existingContent
+        );
         let newContent: string;
 
-        if (options.append) {
+        if (revision.incrementalFrom) {
+          // Add the new commits as their own iteration section
+          const heading = formatIterationHeading(
+            iteration,
+            revision.incrementalFrom,
+            headSha
+          );
+          newContent = `${existingContent}\n\n---\n\n${heading}\n\n${reviewContent}`;
+          action = `appended iteration ${iteration} to existing comment`;
+        } else if (options.append) {
           // Append to existing content
-          newContent = `${existingComment.existingContent}\n\n---\n\n**Updated Review:**\n\n${reviewContent}`;
+          newContent = `${existingContent}\n\n---\n\n**Updated Review:**\n\n${reviewContent}`;
           action = "appended to existing comment";
         } else {
           // Replace existing content (default sticky behavior)
-          newContent = `# Claude Code Review\n\n${reviewContent}`;
+          newContent = `${REVIEW_HEADING}\n\n${reviewContent}`;
           action = "updated existing comment";
         }
 
-        response = await updateExistingComment(
+        await updateExistingComment(
           config,
           existingComment.threadId,
-          newContent
+          embedReviewMetadata(newContent, { headSha, mergeBase, iteration })
         );
+        action += ` in thread #${existingComment.threadId}`;
+        reason = previous
+          ? `its first comment carries the review metadata of an earlier run (iteration ${previous.iteration})`
+          : `its first comment is a review summary posted before review metadata was added`;
       } else {
         // No existing comment found, create new one
-        const content = `# Claude Code Review\n\n${reviewContent}`;
-        response = await createNewComment(config, content);
+        const content = embedReviewMetadata(
+          `${REVIEW_HEADING}\n\n${reviewContent}`,
+          { headSha, mergeBase, iteration: 1 }
+        );
+        await createNewComment(config, content);
         action = "posted new comment";
+        reason = "no earlier review comment was found";
       }
     }
 
-    if (response.statusCode >= 200 && response.statusCode < 300) {
-      spinner.succeed(`Successfully ${action} on Azure DevOps`);
+    if (options.dryRun) {
+      spinner.succeed(`Would have ${action} on Azure DevOps: ${reason}`);
     } else {
-      spinner.fail(
-        `Failed to post review: ${response.statusCode} ${response.statusMessage}`
-      );
-      console.error("Response body:", response.body);
+      spinner.succeed(`Successfully ${action} on Azure DevOps`);
     }
   } catch (error) {
     spinner.fail(`Error posting to Azure DevOps: ${(error as Error).message}`);
-  }
-}
-
-async function makeHttpRequest(
-  url: string,
-  options: {
-    method?: string;
-    headers?: Record<string, string>;
-    body?: string;
-  } = {}
-): Promise<HttpResponse> {
-  try {
-    const fetchOptions: RequestInit = {
-      method: options.method || "GET",
-      headers: options.headers || {},
-    };
-
-    if (options.body) {
-      fetchOptions.body = options.body;
+    if (error instanceof AdoRequestError && error.kind === "auth") {
+      logger.log(
+        "⚠️  Check that the token can read and contribute to pull requests in this project"
+      );
     }
-
-    const response = await fetch(url, fetchOptions);
-    const body = await response.text();
-
-    return {
-      statusCode: response.status,
-      statusMessage: response.statusText,
-      headers: Object.fromEntries(response.headers.entries()),
-      body: body,
-    };
-  } catch (error) {
-    throw error;
   }
 }
 
-// Always run main when this file is executed directly
-main();
+// Run main (or a subcommand) when this file is executed directly
+program.parse();
@@ -17,9 +17,10 @@ import {
   createPullRequest,
   extractWorkItemFromPRTitle,
   createConnection,
-  getOrgUrl,
   workItemExists,
 } from "../ado.js";
+import { parseCollectionUrl } from "../collection-url.js";
+import { getDefaultCredential } from "../credentials.js";
 import {
   formatSuccess,
   formatError,
@@ -35,6 +36,7 @@ $.verbose = false;
 
 interface CliOptions {
   dryRun: boolean;
+  adoBaseUrl?: string;
 }
 
 async function main() {
@@ -49,6 +51,10 @@ async function main() {
       "Show what would be done without making changes",
       false
     )
+    .option(
+      "--ado-base-url <url>",
+      "Send Azure DevOps API requests to this URL instead, e.g. a local fake server"
+    )
     .action(async (options: CliOptions) => {
       try {
         await runCli(options);
@@ -73,13 +79,14 @@ async function runCli(options: CliOptions) {
   }
   spinner.succeed("Git repository detected");
 
-  // Check for Azure DevOps token
-  const token = process.env.AZURE_DEVOPS_TOKEN;
-  if (!token) {
+  // Check for Azure DevOps credentials
+  const credential = await getDefaultCredential();
+  if (!credential) {
     throw new Error(
-      "AZURE_DEVOPS_TOKEN environment variable is required. Please set it with your Azure DevOps Personal Access Token."
+      "No Azure DevOps credentials found. Set AZURE_DEVOPS_TOKEN to a Personal Access Token, run az login, or configure a service principal or managed identity."
     );
   }
+  const { token, tokenType } = await credential.getToken();
 
   // Get current branch
   spinner.start("Getting current branch...");
@@ -100,6 +107,15 @@ async function runCli(options: CliOptions) {
   const remoteInfo = parseAzureDevOpsRemote(remoteUrl);
   spinner.succeed("Azure DevOps remote parsed");
 
+  if (options.adoBaseUrl) {
+    const baseUrl = parseCollectionUrl(options.adoBaseUrl);
+    if (!baseUrl) {
+      throw new Error(`Invalid Azure DevOps base URL: ${options.adoBaseUrl}`);
+    }
+    remoteInfo.collectionUrl = baseUrl;
+    console.log(formatInfo(`Sending API requests to ${baseUrl}`));
+  }
+
   console.log();
   console.log(formatKeyValue("Organization", remoteInfo.organization));
   console.log(formatKeyValue("Project", remoteInfo.project));
@@ -107,8 +123,11 @@ async function runCli(options: CliOptions) {
   console.log();
 
   // Create connection
-  const orgUrl = getOrgUrl(remoteInfo.organization);
-  const connection = createConnection(orgUrl, token);
+  const connection = createConnection(
+    remoteInfo.collectionUrl,
+    token,
+    tokenType
+  );
 
   // Check if work item exists (if we have one)
   if (workItemId) {
@@ -155,7 +174,8 @@ async function runCli(options: CliOptions) {
             branchName,
             prWorkItemId,
             token,
-            options.dryRun
+            options.dryRun,
+            tokenType
           );
 
           console.log();
@@ -217,7 +237,8 @@ async function runCli(options: CliOptions) {
       branchName,
       workItemId,
       token,
-      options.dryRun
+      options.dryRun,
+      tokenType
     );
 
     console.log();
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCloudCollectionUrl,
+  getCollectionName,
+  getCollectionUrlFromApiUrl,
+  normalizeCollectionUrl,
+  parseCollectionUrl,
+} from "./collection-url.js";
+
+describe("collection-url", () => {
+  describe("normalizeCollectionUrl", () => {
+    it("should drop trailing slashes and the visualstudio.com DefaultCollection", () => {
+      expect(normalizeCollectionUrl("https://dev.azure.com/contoso/")).toBe(
+        "https://dev.azure.com/contoso"
+      );
+      expect(
+        normalizeCollectionUrl(
+          "https://contoso.visualstudio.com/DefaultCollection/"
+        )
+      ).toBe("https://contoso.visualstudio.com");
+      expect(
+        normalizeCollectionUrl("https://tfs.corp/tfs/DefaultCollection/")
+      ).toBe("https://tfs.corp/tfs/DefaultCollection");
+    });
+  });
+
+  describe("parseCollectionUrl", () => {
+    it("should accept HTTP(S) collection URLs only", () => {
+      expect(parseCollectionUrl("https://tfs.contoso.local/tfs/Main/")).toBe(
+        "https://tfs.contoso.local/tfs/Main"
+      );
+      expect(parseCollectionUrl("contoso")).toBeNull();
+      expect(parseCollectionUrl("")).toBeNull();
+    });
+  });
+
+  describe("getCollectionName", () => {
+    it("should return the organization or the server collection", () => {
+      expect(getCollectionName(getCloudCollectionUrl("contoso"))).toBe(
+        "contoso"
+      );
+      expect(getCollectionName("https://contoso.visualstudio.com/")).toBe(
+        "contoso"
+      );
+      expect(getCollectionName("https://tfs.corp/tfs/Main%20Collection")).toBe(
+        "Main Collection"
+      );
+    });
+  });
+
+  describe("getCollectionUrlFromApiUrl", () => {
+    it("should strip the project and API path", () => {
+      expect(
+        getCollectionUrlFromApiUrl(
+          "https://tfs.corp/tfs/Main/0b8b4a5e-project-id/_apis/git/repositories/r/pullRequests/1",
+          "0b8b4a5e-project-id"
+        )
+      ).toBe("https://tfs.corp/tfs/Main");
+      expect(
+        getCollectionUrlFromApiUrl(
+          "https://contoso.visualstudio.com/_apis/git/repositories/r/pullRequests/1"
+        )
+      ).toBe("https://contoso.visualstudio.com");
+      expect(getCollectionUrlFromApiUrl("https://example.com/")).toBeNull();
+    });
+  });
+});
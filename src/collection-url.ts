@@ -0,0 +1,75 @@
+/**
+ * Collection URLs are the base of every Azure DevOps API and web URL:
+ * https://dev.azure.com/org, https://org.visualstudio.com, or
+ * https://tfs.corp/tfs/Collection for Azure DevOps Server
+ */
+
+/**
+ * Get the collection URL of an Azure DevOps Services organization
+ */
+export function getCloudCollectionUrl(organization: string): string {
+  return `https://dev.azure.com/${organization}`;
+}
+
+/**
+ * Drop the trailing slash and the implicit DefaultCollection of
+ * visualstudio.com URLs, so the same collection always has the same URL
+ */
+export function normalizeCollectionUrl(collectionUrl: string): string {
+  const url = collectionUrl.replace(/\/+$/, "");
+  return /^https:\/\/[^\/]+\.visualstudio\.com\/DefaultCollection$/i.test(url)
+    ? url.replace(/\/DefaultCollection$/i, "")
+    : url;
+}
+
+/**
+ * Validate and normalize a collection URL such as SYSTEM_COLLECTIONURI or a
+ * service hook's collection baseUrl
+ */
+export function parseCollectionUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? normalizeCollectionUrl(`${url.origin}${url.pathname}`)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the organization of a cloud collection URL, or the collection name on
+ * Azure DevOps Server
+ */
+export function getCollectionName(collectionUrl: string): string {
+  const url = new URL(normalizeCollectionUrl(collectionUrl));
+  const legacy = url.hostname.match(/^([^.]+)\.visualstudio\.com$/i);
+  if (legacy) {
+    return legacy[1];
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] || url.hostname);
+}
+
+/**
+ * Get the collection URL from a REST API URL such as
+ * https://tfs.corp/tfs/Collection/<project>/_apis/git/... The project id or
+ * name before _apis, if given, is removed
+ */
+export function getCollectionUrlFromApiUrl(
+  apiUrl: string,
+  project?: string
+): string | null {
+  const index = apiUrl.indexOf("/_apis/");
+  if (index === -1) {
+    return null;
+  }
+
+  let base = apiUrl.slice(0, index);
+  const last = base.slice(base.lastIndexOf("/") + 1);
+  if (project && decodeURIComponent(last) === project) {
+    base = base.slice(0, base.lastIndexOf("/"));
+  }
+  return normalizeCollectionUrl(base);
+}
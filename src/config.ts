@@ -0,0 +1,343 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import type { ChunkBy } from "./chunking.js";
+import { SEVERITIES, Severity } from "./findings.js";
+import { LENS_NAMES, LensName } from "./lenses.js";
+import {
+  BACKEND_NAMES,
+  BackendName,
+  DEFAULT_API_BASE_URL,
+} from "./review-backend.js";
+
+export const CONFIG_FILE_NAMES = [
+  ".claude-review.json",
+  ".claude-review.yaml",
+  ".claude-review.yml",
+];
+
+export const DEFAULT_LOCK_FILES = [
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "composer.lock",
+  "Pipfile.lock",
+  "poetry.lock",
+];
+
+export const DEFAULT_IGNORE_GLOBS = [
+  "**/*.min.js",
+  "**/*.min.css",
+  "**/dist/**",
+  "**/build/**",
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/*.log",
+  "**/*.tmp",
+  "**/*.temp",
+  "**/*.sql",
+  "**/*.db",
+];
+
+export const DEFAULT_ALLOWED_TOOLS =
+  "Bash(git *) Read Write Grep Glob TodoWrite";
+
+export const DEFAULT_MAX_TURNS = 5;
+
+/**
+ * Settings that can be checked in to a repository's config file
+ */
+export interface ReviewConfig {
+  compareBranch?: string;
+  model?: string;
+  promptFile?: string;
+  lockFiles?: string[];
+  ignoreGlobs?: string[];
+  allowedTools?: string;
+  maxTurns?: number;
+  inline?: boolean;
+  resolveFixed?: boolean;
+  status?: boolean;
+  vote?: boolean;
+  waitForAuthorOn?: Severity;
+  suggestionsOn?: Severity;
+  chunked?: boolean;
+  maxBatchTokens?: number;
+  chunkBy?: ChunkBy;
+  concurrency?: number;
+  backend?: BackendName;
+  apiBaseUrl?: string;
+  lenses?: LensName[];
+  maxCost?: number;
+  maxInputTokens?: number;
+  overBudget?: OverBudgetAction;
+  failOn?: Severity;
+}
+
+export const OVER_BUDGET_ACTIONS = ["abort", "auto"] as const;
+export type OverBudgetAction = (typeof OVER_BUDGET_ACTIONS)[number];
+
+type OptionalSetting = "model" | "maxCost" | "maxInputTokens" | "failOn";
+
+/**
+ * Effective settings after merging defaults, the config file and CLI flags
+ */
+export interface ReviewSettings
+  extends
+    Required<Omit<ReviewConfig, OptionalSetting>>,
+    Pick<ReviewConfig, OptionalSetting> {}
+
+type FieldType =
+  | "string"
+  | "boolean"
+  | "positiveInteger"
+  | "positiveNumber"
+  | "stringArray"
+  | readonly string[]
+  | { items: readonly string[] };
+
+/**
+ * Schema the config file is validated against
+ */
+export const CONFIG_SCHEMA: Record<keyof ReviewConfig, FieldType> = {
+  compareBranch: "string",
+  model: "string",
+  promptFile: "string",
+  lockFiles: "stringArray",
+  ignoreGlobs: "stringArray",
+  allowedTools: "string",
+  maxTurns: "positiveInteger",
+  inline: "boolean",
+  resolveFixed: "boolean",
+  status: "boolean",
+  vote: "boolean",
+  waitForAuthorOn: SEVERITIES,
+  suggestionsOn: SEVERITIES,
+  chunked: "boolean",
+  maxBatchTokens: "positiveInteger",
+  chunkBy: ["file", "directory"],
+  concurrency: "positiveInteger",
+  backend: BACKEND_NAMES,
+  apiBaseUrl: "string",
+  lenses: { items: LENS_NAMES },
+  maxCost: "positiveNumber",
+  maxInputTokens: "positiveInteger",
+  overBudget: OVER_BUDGET_ACTIONS,
+  failOn: SEVERITIES,
+};
+
+export interface ConfigValidationResult {
+  config?: ReviewConfig;
+  errors: string[];
+}
+
+/**
+ * Find the closest config file, starting at a directory and walking up
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Validate parsed config data against the config schema
+ */
+export function validateReviewConfig(data: unknown): ConfigValidationResult {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { errors: ["Config must be an object"] };
+  }
+
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const type = CONFIG_SCHEMA[key as keyof ReviewConfig];
+
+    if (!type) {
+      errors.push(`Unknown setting "${key}"`);
+    } else if (Array.isArray(type)) {
+      if (!type.includes(value)) {
+        errors.push(`"${key}" must be one of ${type.join(", ")}`);
+      }
+    } else if (typeof type === "object" && "items" in type) {
+      if (
+        !Array.isArray(value) ||
+        !value.every((item) => type.items.includes(item))
+      ) {
+        errors.push(`"${key}" must be an array of ${type.items.join(", ")}`);
+      }
+    } else if (type === "stringArray") {
+      if (
+        !Array.isArray(value) ||
+        !value.every((item) => typeof item === "string")
+      ) {
+        errors.push(`"${key}" must be an array of strings`);
+      }
+    } else if (type === "positiveInteger") {
+      if (!Number.isInteger(value) || value < 1) {
+        errors.push(`"${key}" must be a positive integer`);
+      }
+    } else if (type === "positiveNumber") {
+      if (typeof value !== "number" || !(value > 0)) {
+        errors.push(`"${key}" must be a positive number`);
+      }
+    } else if (typeof value !== type) {
+      errors.push(`"${key}" must be a ${type}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { config: data as ReviewConfig, errors };
+}
+
+/**
+ * Read and validate a JSON or YAML config file
+ * Relative prompt file paths are resolved against the config file's directory
+ */
+export function loadReviewConfig(configFile: string): ReviewConfig {
+  let data: unknown;
+
+  try {
+    const content = fs.readFileSync(configFile, "utf8");
+    data = configFile.endsWith(".json")
+      ? JSON.parse(content)
+      : YAML.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${configFile}: ${(error as Error).message}`
+    );
+  }
+
+  // An empty YAML file parses to null
+  const result = validateReviewConfig(data ?? {});
+  if (!result.config) {
+    throw new Error(
+      `Invalid config file ${configFile}:\n- ${result.errors.join("\n- ")}`
+    );
+  }
+
+  const config = result.config;
+  if (config.promptFile) {
+    config.promptFile = path.resolve(
+      path.dirname(configFile),
+      config.promptFile
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Settings that choose the tools Claude may run, the prompt it gets and where
+ * requests are sent; a config file from the code under review can't set them
+ */
+export const UNTRUSTED_CONFIG_KEYS = [
+  "allowedTools",
+  "apiBaseUrl",
+  "backend",
+  "promptFile",
+] as const;
+
+/**
+ * Drop the settings a config file from the code under review can't set
+ * Returns the remaining config and the keys that were dropped
+ */
+export function removeUntrustedSettings(config: ReviewConfig): {
+  config: ReviewConfig;
+  removed: string[];
+} {
+  const trusted = { ...config };
+  const removed = UNTRUSTED_CONFIG_KEYS.filter((key) => key in trusted);
+  for (const key of removed) {
+    delete trusted[key];
+  }
+  return { config: trusted, removed };
+}
+
+/**
+ * Review settings that can also be passed as command line flags
+ */
+export interface CliSettingOptions {
+  compareBranch: string;
+  promptFile: string;
+  model?: string;
+  inline?: boolean;
+  resolveFixed?: boolean;
+  status?: boolean;
+  vote?: boolean;
+  waitForAuthorOn: Severity;
+  suggestionsOn: Severity;
+  chunked?: boolean;
+  maxBatchTokens: number;
+  chunkBy: ChunkBy;
+  concurrency: number;
+  backend: BackendName;
+  apiBaseUrl?: string;
+  lenses?: LensName[];
+  maxCost?: number;
+  maxInputTokens?: number;
+  overBudget: OverBudgetAction;
+  failOn?: Severity;
+}
+
+/**
+ * Merge settings: CLI flags win over the config file, which wins over defaults
+ * `cliOptions` holds the parsed flags including their defaults, and
+ * `isFromCli` tells whether a flag was actually passed on the command line
+ */
+export function resolveReviewSettings(
+  cliOptions: CliSettingOptions,
+  fileConfig: ReviewConfig,
+  isFromCli: (key: string) => boolean
+): ReviewSettings {
+  const pick = <K extends keyof CliSettingOptions>(key: K) =>
+    isFromCli(key) || fileConfig[key] === undefined
+      ? cliOptions[key]
+      : (fileConfig[key] as CliSettingOptions[K]);
+
+  return {
+    compareBranch: pick("compareBranch"),
+    model: pick("model"),
+    promptFile: pick("promptFile"),
+    lockFiles: fileConfig.lockFiles ?? DEFAULT_LOCK_FILES,
+    ignoreGlobs: fileConfig.ignoreGlobs ?? DEFAULT_IGNORE_GLOBS,
+    allowedTools: fileConfig.allowedTools ?? DEFAULT_ALLOWED_TOOLS,
+    maxTurns: fileConfig.maxTurns ?? DEFAULT_MAX_TURNS,
+    inline: Boolean(pick("inline")),
+    resolveFixed: pick("resolveFixed") !== false,
+    status: Boolean(pick("status")),
+    vote: Boolean(pick("vote")),
+    waitForAuthorOn: pick("waitForAuthorOn"),
+    suggestionsOn: pick("suggestionsOn"),
+    chunked: Boolean(pick("chunked")),
+    maxBatchTokens: pick("maxBatchTokens"),
+    chunkBy: pick("chunkBy"),
+    concurrency: pick("concurrency"),
+    backend: pick("backend"),
+    apiBaseUrl: pick("apiBaseUrl") ?? DEFAULT_API_BASE_URL,
+    lenses: pick("lenses") ?? [],
+    maxCost: pick("maxCost"),
+    maxInputTokens: pick("maxInputTokens"),
+    overBudget: pick("overBudget"),
+    failOn: pick("failOn"),
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateCost,
+  estimateReviewCost,
+  getModelPricing,
+  isWellAboveEstimate,
+} from "./cost.js";
+
+describe("cost", () => {
+  describe("getModelPricing", () => {
+    it("should match aliases and full model names to a family", () => {
+      expect(getModelPricing("opus").family).toBe("opus");
+      expect(getModelPricing("claude-haiku-4-5-20251001").family).toBe("haiku");
+      expect(getModelPricing(undefined).family).toBe("sonnet");
+      expect(getModelPricing("some-other-model").family).toBe("sonnet");
+    });
+  });
+
+  describe("calculateCost", () => {
+    it("should price input, cache reads and output per million tokens", () => {
+      const cost = calculateCost(
+        {
+          inputTokens: 1_000_000,
+          cacheReadInputTokens: 1_000_000,
+          outputTokens: 100_000,
+        },
+        "sonnet"
+      );
+
+      expect(cost).toBeCloseTo(3 + 0.3 + 1.5);
+    });
+  });
+
+  describe("estimateReviewCost", () => {
+    it("should add up every run and assume output per run", () => {
+      const estimate = estimateReviewCost([10_000, 30_000], "sonnet");
+
+      expect(estimate).toEqual({
+        model: "sonnet",
+        runs: 2,
+        inputTokens: 40_000,
+        largestRunTokens: 30_000,
+        outputTokens: 8000,
+        costUsd: (40_000 * 3 + 8000 * 15) / 1_000_000,
+      });
+    });
+  });
+
+  describe("isWellAboveEstimate", () => {
+    it("should flag costs over twice the estimate", () => {
+      expect(isWellAboveEstimate(0.25, 0.1)).toBe(true);
+      expect(isWellAboveEstimate(0.15, 0.1)).toBe(false);
+      expect(isWellAboveEstimate(0.15, 0)).toBe(false);
+    });
+  });
+});
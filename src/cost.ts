@@ -0,0 +1,100 @@
+import type { BackendUsage } from "./review-backend.js";
+
+export interface ModelPricing {
+  // USD per million tokens
+  input: number;
+  output: number;
+  cacheRead: number;
+}
+
+/**
+ * List prices per model family, used when a backend doesn't report a cost
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  opus: { input: 15, output: 75, cacheRead: 1.5 },
+  sonnet: { input: 3, output: 15, cacheRead: 0.3 },
+  haiku: { input: 1, output: 5, cacheRead: 0.1 },
+};
+
+export const DEFAULT_PRICING_FAMILY = "sonnet";
+
+// Rough size of the review JSON Claude writes for one run
+export const ESTIMATED_OUTPUT_TOKENS_PER_RUN = 4000;
+
+// Actual cost above this multiple of the estimate is reported
+export const COST_WARNING_RATIO = 2;
+
+export interface CostEstimate {
+  model: string;
+  runs: number;
+  inputTokens: number;
+  largestRunTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Pricing for a model alias or full model name, e.g. "opus" or
+ * "claude-sonnet-4-5-20250929"; unknown models are priced as Sonnet
+ */
+export function getModelPricing(model?: string): {
+  family: string;
+  pricing: ModelPricing;
+} {
+  const family =
+    Object.keys(MODEL_PRICING).find((name) =>
+      model?.toLowerCase().includes(name)
+    ) || DEFAULT_PRICING_FAMILY;
+
+  return { family, pricing: MODEL_PRICING[family] };
+}
+
+/**
+ * Cost of a run from its token usage
+ */
+export function calculateCost(usage: BackendUsage, model?: string): number {
+  const { pricing } = getModelPricing(model);
+
+  return (
+    (usage.inputTokens * pricing.input +
+      usage.cacheReadInputTokens * pricing.cacheRead +
+      usage.outputTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimate the cost of a review from the input tokens of each run
+ */
+export function estimateReviewCost(
+  runInputTokens: number[],
+  model?: string
+): CostEstimate {
+  const inputTokens = runInputTokens.reduce(
+    (total, tokens) => total + tokens,
+    0
+  );
+  const outputTokens = runInputTokens.length * ESTIMATED_OUTPUT_TOKENS_PER_RUN;
+
+  return {
+    model: getModelPricing(model).family,
+    runs: runInputTokens.length,
+    inputTokens,
+    largestRunTokens: Math.max(0, ...runInputTokens),
+    outputTokens,
+    costUsd: calculateCost(
+      { inputTokens, cacheReadInputTokens: 0, outputTokens },
+      model
+    ),
+  };
+}
+
+/**
+ * Check whether the actual cost came in well above the estimate
+ */
+export function isWellAboveEstimate(
+  actualUsd: number,
+  estimatedUsd: number
+): boolean {
+  return estimatedUsd > 0 && actualUsd > estimatedUsd * COST_WARNING_RATIO;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { makeHttpRequest } from "./ado-http.js";
+import {
+  AZURE_DEVOPS_RESOURCE,
+  CredentialProvider,
+  clientSecretProvider,
+  managedIdentityProvider,
+  parseAzCliToken,
+  parseTokenResponse,
+  personalAccessTokenProvider,
+  pipelineTokenProvider,
+  resolveCredential,
+} from "./credentials.js";
+
+vi.mock("./ado-http.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ado-http.js")>()),
+  makeHttpRequest: vi.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+function provider(
+  name: string,
+  getToken: CredentialProvider["getToken"]
+): CredentialProvider {
+  return { name, getToken: vi.fn(getToken) };
+}
+
+describe("credentials", () => {
+  beforeEach(() => {
+    vi.mocked(makeHttpRequest).mockReset();
+    vi.mocked(makeHttpRequest).mockResolvedValue({
+      statusCode: 200,
+      statusMessage: "OK",
+      headers: {},
+      body: '{"access_token": "entra-token", "expires_in": 3600}',
+    });
+  });
+
+  describe("parseTokenResponse", () => {
+    it("should read the expiry as a timestamp or a lifetime", () => {
+      expect(
+        parseTokenResponse('{"access_token": "a", "expires_on": "1700000000"}')
+      ).toEqual({
+        token: "a",
+        tokenType: "bearer",
+        expiresOn: 1_700_000_000_000,
+      });
+      expect(
+        parseTokenResponse('{"access_token": "a", "expires_in": 60}', 1000)
+          .expiresOn
+      ).toBe(61_000);
+      expect(() => parseTokenResponse('{"error": "invalid_client"}')).toThrow(
+        "no access_token"
+      );
+    });
+  });
+
+  describe("parseAzCliToken", () => {
+    it("should prefer the epoch expiry of newer az versions", () => {
+      expect(
+        parseAzCliToken(
+          '{"accessToken": "a", "expiresOn": "2026-10-19 16:31:00.000000", "expires_on": 1700000000}'
+        ).expiresOn
+      ).toBe(1_700_000_000_000);
+      expect(
+        parseAzCliToken('{"accessToken": "a", "expiresOn": "not a date"}')
+      ).toEqual({ token: "a", tokenType: "bearer", expiresOn: undefined });
+    });
+  });
+
+  describe("providers", () => {
+    it("should read a PAT and the pipeline job token from the environment", async () => {
+      const env = { AZURE_DEVOPS_TOKEN: "pat", SYSTEM_ACCESSTOKEN: "job" };
+
+      expect(await personalAccessTokenProvider(env).getToken()).toEqual({
+        token: "pat",
+        tokenType: "pat",
+      });
+      expect(await pipelineTokenProvider(env).getToken()).toEqual({
+        token: "job",
+        tokenType: "bearer",
+      });
+      expect(await personalAccessTokenProvider({}).getToken()).toBeNull();
+    });
+
+    it("should request a client credentials token for Azure DevOps", async () => {
+      const token = await clientSecretProvider({
+        AZURE_TENANT_ID: "tenant",
+        AZURE_CLIENT_ID: "client",
+        AZURE_CLIENT_SECRET: "secret",
+      }).getToken();
+
+      expect(token?.token).toBe("entra-token");
+      const [url, request] = vi.mocked(makeHttpRequest).mock.calls[0];
+      expect(url).toBe(
+        "https://login.microsoftonline.com/tenant/oauth2/v2.0/token"
+      );
+      expect(new URLSearchParams(request!.body).get("scope")).toBe(
+        `${AZURE_DEVOPS_RESOURCE}/.default`
+      );
+      expect(await clientSecretProvider({}).getToken()).toBeNull();
+    });
+
+    it("should use the App Service identity endpoint when there is one", async () => {
+      await managedIdentityProvider({}).getToken();
+      await managedIdentityProvider({
+        IDENTITY_ENDPOINT: "http://localhost:4141/token",
+        IDENTITY_HEADER: "header",
+      }).getToken();
+
+      const [[imdsUrl, imds], [appUrl, app]] =
+        vi.mocked(makeHttpRequest).mock.calls;
+      expect(imdsUrl).toContain("http://169.254.169.254/metadata/identity");
+      expect(imds?.headers).toEqual({ Metadata: "true" });
+      expect(appUrl).toContain("http://localhost:4141/token?");
+      expect(app?.headers).toEqual({ "X-IDENTITY-HEADER": "header" });
+    });
+  });
+
+  describe("resolveCredential", () => {
+    it("should use the first provider that has a token", async () => {
+      const credential = await resolveCredential([
+        provider("none", async () => null),
+        provider("failing", async () => {
+          throw new Error("az: command not found");
+        }),
+        provider("cli", async () => ({ token: "cli", tokenType: "bearer" })),
+      ]);
+
+      expect(credential?.source).toBe("cli");
+      expect(await credential?.getToken()).toEqual({
+        token: "cli",
+        tokenType: "bearer",
+      });
+      expect(
+        await resolveCredential([provider("none", async () => null)])
+      ).toBeNull();
+    });
+
+    it("should refresh bearer tokens shortly before they expire", async () => {
+      let now = 0;
+      let issued = 0;
+      const refreshing = provider("cli", async () => ({
+        token: `token-${++issued}`,
+        tokenType: "bearer",
+        expiresOn: now + HOUR,
+      }));
+
+      const credential = await resolveCredential([refreshing], () => now);
+      now = HOUR / 2;
+      expect((await credential!.getToken()).token).toBe("token-1");
+
+      now = HOUR - 60_000;
+      expect((await credential!.getToken()).token).toBe("token-2");
+      expect(refreshing.getToken).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { $ } from "zx";
+import { makeHttpRequest, isSuccess } from "./ado-http.js";
+
+// Application ID of Azure DevOps, the resource Entra tokens are requested for
+export const AZURE_DEVOPS_RESOURCE = "499b84ac-1321-427f-aa17-267ca6975798";
+
+// Bearer tokens are refreshed this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// The instance metadata endpoint doesn't answer outside of Azure
+const MANAGED_IDENTITY_TIMEOUT_MS = 2000;
+
+export type TokenType = "pat" | "bearer";
+
+export interface AccessToken {
+  token: string;
+  tokenType: TokenType;
+  // Epoch milliseconds; unset for tokens that don't expire during a run
+  expiresOn?: number;
+}
+
+export interface CredentialProvider {
+  name: string;
+  // Resolves null when the provider isn't configured
+  getToken(): Promise<AccessToken | null>;
+}
+
+export interface AzureCredential {
+  source: string;
+  // Returns the current token, refreshed when it is about to expire
+  getToken(): Promise<AccessToken>;
+}
+
+/**
+ * Read an OAuth token response from Entra ID or a managed identity endpoint
+ */
+export function parseTokenResponse(
+  body: string,
+  now: number = Date.now()
+): AccessToken {
+  const response = JSON.parse(body);
+  if (!response.access_token) {
+    throw new Error("The token response has no access_token");
+  }
+
+  const expiresOn = response.expires_on
+    ? Number(response.expires_on) * 1000
+    : response.expires_in
+      ? now + Number(response.expires_in) * 1000
+      : undefined;
+
+  return { token: response.access_token, tokenType: "bearer", expiresOn };
+}
+
+/**
+ * Read the output of az account get-access-token
+ */
+export function parseAzCliToken(output: string): AccessToken {
+  const response = JSON.parse(output);
+  if (!response.accessToken) {
+    throw new Error("az account get-access-token returned no accessToken");
+  }
+
+  // Older az versions only have expiresOn, in local time
+  const expiresOn = response.expires_on
+    ? Number(response.expires_on) * 1000
+    : Date.parse(response.expiresOn);
+
+  return {
+    token: response.accessToken,
+    tokenType: "bearer",
+    expiresOn: isNaN(expiresOn) ? undefined : expiresOn,
+  };
+}
+
+/**
+ * A personal access token in AZURE_DEVOPS_TOKEN
+ */
+export function personalAccessTokenProvider(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  return {
+    name: "AZURE_DEVOPS_TOKEN",
+    async getToken() {
+      return env.AZURE_DEVOPS_TOKEN
+        ? { token: env.AZURE_DEVOPS_TOKEN, tokenType: "pat" }
+        : null;
+    },
+  };
+}
+
+/**
+ * The Azure Pipelines job token, when the step maps SYSTEM_ACCESSTOKEN
+ */
+export function pipelineTokenProvider(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  return {
+    name: "SYSTEM_ACCESSTOKEN",
+    async getToken() {
+      return env.SYSTEM_ACCESSTOKEN
+        ? { token: env.SYSTEM_ACCESSTOKEN, tokenType: "bearer" }
+        : null;
+    },
+  };
+}
+
+/**
+ * An Entra token for the account logged in with az login
+ */
+export function azureCliProvider(): CredentialProvider {
+  return {
+    name: "Azure CLI",
+    async getToken() {
+      const result =
+        await $`az account get-access-token --resource ${AZURE_DEVOPS_RESOURCE} --output json`.quiet();
+      return parseAzCliToken(result.stdout);
+    },
+  };
+}
+
+/**
+ * An Entra token for a service principal with AZURE_TENANT_ID,
+ * AZURE_CLIENT_ID and AZURE_CLIENT_SECRET
+ */
+export function clientSecretProvider(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  return {
+    name: "client credentials",
+    async getToken() {
+      const { AZURE_TENANT_ID, AZURE_CLIENT_ID, AZURE_CLIENT_SECRET } = env;
+      if (!AZURE_TENANT_ID || !AZURE_CLIENT_ID || !AZURE_CLIENT_SECRET) {
+        return null;
+      }
+
+      const response = await makeHttpRequest(
+        `https://login.microsoftonline.com/${AZURE_TENANT_ID}/oauth2/v2.0/token`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({
+            grant_type: "client_credentials",
+            client_id: AZURE_CLIENT_ID,
+            client_secret: AZURE_CLIENT_SECRET,
+            scope: `${AZURE_DEVOPS_RESOURCE}/.default`,
+          }).toString(),
+        }
+      );
+      if (!isSuccess(response)) {
+        throw new Error(
+          `Failed to get a client credentials token: ${response.statusCode} ${response.statusMessage}`
+        );
+      }
+      return parseTokenResponse(response.body);
+    },
+  };
+}
+
+/**
+ * An Entra token for the managed identity of an Azure VM, container or App
+ * Service; AZURE_CLIENT_ID picks a user-assigned identity
+ */
+export function managedIdentityProvider(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  return {
+    name: "managed identity",
+    async getToken() {
+      const params = new URLSearchParams({ resource: AZURE_DEVOPS_RESOURCE });
+      if (env.AZURE_CLIENT_ID) {
+        params.set("client_id", env.AZURE_CLIENT_ID);
+      }
+
+      // App Service and Container Apps have their own endpoint
+      const appService = env.IDENTITY_ENDPOINT && env.IDENTITY_HEADER;
+      params.set("api-version", appService ? "2019-08-01" : "2018-02-01");
+      const url = appService
+        ? `${env.IDENTITY_ENDPOINT}?${params}`
+        : `http://169.254.169.254/metadata/identity/oauth2/token?${params}`;
+
+      const response = await makeHttpRequest(url, {
+        headers: appService
+          ? { "X-IDENTITY-HEADER": env.IDENTITY_HEADER! }
+          : { Metadata: "true" },
+        timeoutMs: MANAGED_IDENTITY_TIMEOUT_MS,
+      });
+      if (!isSuccess(response)) {
+        throw new Error(
+          `Failed to get a managed identity token: ${response.statusCode} ${response.statusMessage}`
+        );
+      }
+      return parseTokenResponse(response.body);
+    },
+  };
+}
+
+/**
+ * The credential chain: an explicit PAT, the pipeline job token, az login,
+ * a service principal, then a managed identity
+ */
+export function getDefaultProviders(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider[] {
+  return [
+    personalAccessTokenProvider(env),
+    pipelineTokenProvider(env),
+    azureCliProvider(),
+    clientSecretProvider(env),
+    managedIdentityProvider(env),
+  ];
+}
+
+/**
+ * Use the first provider that returns a token; later tokens come from the
+ * same provider, which is asked again shortly before the token expires
+ */
+export async function resolveCredential(
+  providers: CredentialProvider[],
+  now: () => number = Date.now
+): Promise<AzureCredential | null> {
+  for (const provider of providers) {
+    let first: AccessToken | null;
+    try {
+      first = await provider.getToken();
+    } catch {
+      // Not logged in or not available here, try the next provider
+      continue;
+    }
+    if (!first) {
+      continue;
+    }
+
+    let current = first;
+    let refreshing: Promise<AccessToken> | undefined;
+
+    return {
+      source: provider.name,
+      async getToken() {
+        if (
+          current.expiresOn === undefined ||
+          current.expiresOn - REFRESH_MARGIN_MS > now()
+        ) {
+          return current;
+        }
+
+        if (!refreshing) {
+          refreshing = provider
+            .getToken()
+            .then((token) => {
+              if (!token) {
+                throw new Error("no token returned");
+              }
+              current = token;
+              return token;
+            })
+            .finally(() => {
+              refreshing = undefined;
+            });
+        }
+
+        try {
+          return await refreshing;
+        } catch (error) {
+          throw new Error(
+            `Failed to refresh the ${provider.name} token: ${error}`
+          );
+        }
+      },
+    };
+  }
+
+  return null;
+}
+
+let defaultCredential: Promise<AzureCredential | null> | undefined;
+
+/**
+ * Resolve the default credential chain once per process
+ */
+export function getDefaultCredential(): Promise<AzureCredential | null> {
+  if (!defaultCredential) {
+    defaultCredential = resolveCredential(getDefaultProviders());
+  }
+  return defaultCredential;
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseUnifiedDiff,
+  findDiffFile,
+  isRangeInDiff,
+  filterDiff,
+  createFileDiff,
+  removeDiffContext,
+} from "./diff.js";
+
+const sampleDiff = `diff --git a/src/foo.ts b/src/foo.ts
+index 1111111..2222222 100644
+--- a/src/foo.ts
++++ b/src/foo.ts
+@@ -10,4 +10,5 @@ export function foo() {
+   const a = 1;
+-  const b = 2;
++  const b = 3;
++  const c = 4;
+   return a + b;
+ }
+diff --git a/src/removed.ts b/src/removed.ts
+deleted file mode 100644
+index 3333333..0000000
+--- a/src/removed.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-export const removed = true;
+-export default removed;
+diff --git a/src/added.ts b/src/added.ts
+new file mode 100644
+index 0000000..4444444
+--- /dev/null
++++ b/src/added.ts
+@@ -0,0 +1 @@
++export const added = true;
+`;
+
+describe("diff utilities", () => {
+  describe("parseUnifiedDiff", () => {
+    it("should parse files with their paths", () => {
+      const files = parseUnifiedDiff(sampleDiff);
+
+      expect(files).toHaveLength(3);
+      expect(files[0].oldPath).toBe("src/foo.ts");
+      expect(files[0].newPath).toBe("src/foo.ts");
+      expect(files[1].oldPath).toBe("src/removed.ts");
+      expect(files[1].newPath).toBeNull();
+      expect(files[2].oldPath).toBeNull();
+      expect(files[2].newPath).toBe("src/added.ts");
+    });
+
+    it("should number old and new lines within hunks", () => {
+      const [file] = parseUnifiedDiff(sampleDiff);
+      const hunk = file.hunks[0];
+
+      expect(hunk.oldStart).toBe(10);
+      expect(hunk.newLines).toBe(5);
+      expect(hunk.lines).toEqual([
+        {
+          type: "context",
+          content: "  const a = 1;",
+          oldLine: 10,
+          newLine: 10,
+        },
+        { type: "del", content: "  const b = 2;", oldLine: 11 },
+        { type: "add", content: "  const b = 3;", newLine: 11 },
+        { type: "add", content: "  const c = 4;", newLine: 12 },
+        {
+          type: "context",
+          content: "  return a + b;",
+          oldLine: 12,
+          newLine: 13,
+        },
+        { type: "context", content: "}", oldLine: 13, newLine: 14 },
+      ]);
+    });
+
+    it("should default the hunk line count to one", () => {
+      const files = parseUnifiedDiff(sampleDiff);
+
+      expect(files[2].hunks[0].newLines).toBe(1);
+      expect(files[2].hunks[0].lines[0].newLine).toBe(1);
+    });
+
+    it("should return no files for an empty diff", () => {
+      expect(parseUnifiedDiff("")).toEqual([]);
+    });
+  });
+
+  describe("findDiffFile", () => {
+    it("should find files by new or old path", () => {
+      const files = parseUnifiedDiff(sampleDiff);
+
+      expect(findDiffFile(files, "src/foo.ts")).toBe(files[0]);
+      expect(findDiffFile(files, "/src/added.ts")).toBe(files[2]);
+      expect(findDiffFile(files, "src/removed.ts")).toBe(files[1]);
+      expect(findDiffFile(files, "src/missing.ts")).toBeUndefined();
+    });
+  });
+
+  describe("isRangeInDiff", () => {
+    it("should accept added and context lines on the right side", () => {
+      const [file] = parseUnifiedDiff(sampleDiff);
+
+      expect(isRangeInDiff(file, "right", 11, 12)).toBe(true);
+      expect(isRangeInDiff(file, "right", 10, 14)).toBe(true);
+      expect(isRangeInDiff(file, "right", 14, 15)).toBe(false);
+      expect(isRangeInDiff(file, "right", 3)).toBe(false);
+    });
+
+    it("should only accept deleted lines on the left side", () => {
+      const [file] = parseUnifiedDiff(sampleDiff);
+
+      expect(isRangeInDiff(file, "left", 11)).toBe(true);
+      expect(isRangeInDiff(file, "left", 10)).toBe(false);
+    });
+  });
+
+  describe("filterDiff", () => {
+    it("should drop lock files and ignored paths", () => {
+      const filtered = filterDiff(sampleDiff, ["removed.ts"], ["**/added.ts"]);
+
+      expect(parseUnifiedDiff(filtered).map((f) => f.newPath)).toEqual([
+        "src/foo.ts",
+      ]);
+    });
+  });
+
+  describe("createFileDiff", () => {
+    it("should build a diff that parses back to the same lines", () => {
+      const diff = createFileDiff(
+        "src/foo.ts",
+        "src/foo.ts",
+        "a\nb\nc\n",
+        "a\nB\nc\nd\n"
+      );
+      const [file] = parseUnifiedDiff(diff);
+
+      expect(diff).toContain("@@ -1,3 +1,4 @@");
+      expect(isRangeInDiff(file, "right", 2)).toBe(true);
+      expect(isRangeInDiff(file, "right", 4)).toBe(true);
+      expect(isRangeInDiff(file, "left", 2)).toBe(true);
+    });
+
+    it("should write git headers for added, deleted and renamed files", () => {
+      const added = createFileDiff(null, "src/new.ts", "", "x\n");
+      const deleted = createFileDiff("src/old.ts", null, "x\n", "");
+      const renamed = createFileDiff("src/a.ts", "src/b.ts", "x\n", "x\n");
+
+      expect(added).toContain("new file mode 100644\n--- /dev/null");
+      expect(added).toContain("@@ -0,0 +1,1 @@");
+      expect(deleted).toContain("+++ /dev/null\n@@ -1,1 +0,0 @@");
+      expect(renamed).toBe(
+        "diff --git a/src/a.ts b/src/b.ts\nrename from src/a.ts\nrename to src/b.ts"
+      );
+    });
+  });
+
+  describe("removeDiffContext", () => {
+    it("should split hunks at context lines like git diff -U0", () => {
+      const diff = [
+        "diff --git a/b.txt b/b.txt",
+        "--- a/b.txt",
+        "+++ b/b.txt",
+        "@@ -1,10 +1,10 @@",
+        " l1",
+        "-l2",
+        "+X",
+        " l3",
+        " l4",
+        " l5",
+        " l6",
+        " l7",
+        "+Y",
+        " l8",
+        " l9",
+        "-l10",
+      ].join("\n");
+
+      expect(removeDiffContext(diff)).toBe(
+        [
+          "diff --git a/b.txt b/b.txt",
+          "--- a/b.txt",
+          "+++ b/b.txt",
+          "@@ -2,1 +2,1 @@",
+          "-l2",
+          "+X",
+          "@@ -7,0 +8,1 @@",
+          "+Y",
+          "@@ -10,1 +10,0 @@",
+          "-l10",
+        ].join("\n")
+      );
+    });
+
+    it("should keep line numbers that match the original diff", () => {
+      const [original] = parseUnifiedDiff(sampleDiff);
+      const [compact] = parseUnifiedDiff(removeDiffContext(sampleDiff));
+
+      const changed = (file: typeof original) =>
+        file.hunks.flatMap((hunk) =>
+          hunk.lines.filter((line) => line.type !== "context")
+        );
+      expect(changed(compact)).toEqual(changed(original));
+    });
+  });
+});
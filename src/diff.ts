@@ -0,0 +1,376 @@
+import { minimatch } from "minimatch";
+import { structuredPatch } from "diff";
+
+export type DiffLineType = "add" | "del" | "context";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Parse a unified git diff into files, hunks and numbered lines
+ * Deleted files have a null newPath and added files a null oldPath
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let currentFile: DiffFile | null = null;
+  let currentHunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git")) {
+      // Format: "diff --git a/path/to/file b/path/to/file"
+      const match = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      currentFile = {
+        oldPath: match ? match[1] : null,
+        newPath: match ? match[2] : null,
+        hunks: [],
+      };
+      currentHunk = null;
+      files.push(currentFile);
+      continue;
+    }
+
+    if (!currentFile) {
+      continue;
+    }
+
+    if (!currentHunk) {
+      if (line.startsWith("--- ")) {
+        currentFile.oldPath = parseDiffPath(line.slice(4), "a/");
+      } else if (line.startsWith("+++ ")) {
+        currentFile.newPath = parseDiffPath(line.slice(4), "b/");
+      } else if (line.startsWith("new file mode")) {
+        currentFile.oldPath = null;
+      } else if (line.startsWith("deleted file mode")) {
+        currentFile.newPath = null;
+      }
+    }
+
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkMatch) {
+      currentHunk = {
+        oldStart: parseInt(hunkMatch[1]),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2]) : 1,
+        newStart: parseInt(hunkMatch[3]),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4]) : 1,
+        lines: [],
+      };
+      oldLine = currentHunk.oldStart;
+      newLine = currentHunk.newStart;
+      currentFile.hunks.push(currentHunk);
+      continue;
+    }
+
+    if (!currentHunk) {
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      currentHunk.lines.push({
+        type: "add",
+        content: line.slice(1),
+        newLine: newLine++,
+      });
+    } else if (line.startsWith("-")) {
+      currentHunk.lines.push({
+        type: "del",
+        content: line.slice(1),
+        oldLine: oldLine++,
+      });
+    } else if (line.startsWith(" ")) {
+      currentHunk.lines.push({
+        type: "context",
+        content: line.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+    }
+    // "\ No newline at end of file" and blank trailing lines are ignored
+  }
+
+  return files;
+}
+
+function parseDiffPath(value: string, prefix: string): string | null {
+  const path = value.split("\t")[0].trim();
+  if (path === "/dev/null") {
+    return null;
+  }
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+/**
+ * Find a file in a parsed diff by its new or old path
+ */
+export function findDiffFile(
+  files: DiffFile[],
+  filePath: string
+): DiffFile | undefined {
+  const normalized = filePath.replace(/^\/+/, "");
+  return (
+    files.find((file) => file.newPath === normalized) ||
+    files.find((file) => file.oldPath === normalized)
+  );
+}
+
+/**
+ * Get the text of a line range on one side of the diff
+ * Returns null when any line of the range isn't in the diff
+ */
+export function getRangeLines(
+  file: DiffFile,
+  side: "left" | "right",
+  startLine: number,
+  endLine: number = startLine
+): string[] | null {
+  const lines = new Map<number, string>();
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      const number = side === "right" ? line.newLine : line.oldLine;
+      if (number !== undefined) {
+        lines.set(number, line.content);
+      }
+    }
+  }
+
+  const text: string[] = [];
+  for (let line = startLine; line <= endLine; line++) {
+    if (!lines.has(line)) {
+      return null;
+    }
+    text.push(lines.get(line)!);
+  }
+  return text;
+}
+
+/**
+ * Check whether every line in a range is visible on one side of the diff
+ * The right side covers added and context lines, the left side deleted lines
+ */
+export function isRangeInDiff(
+  file: DiffFile,
+  side: "left" | "right",
+  startLine: number,
+  endLine: number = startLine
+): boolean {
+  const visible = new Set<number>();
+
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (side === "right" && line.newLine !== undefined) {
+        visible.add(line.newLine);
+      }
+      if (
+        side === "left" &&
+        line.type === "del" &&
+        line.oldLine !== undefined
+      ) {
+        visible.add(line.oldLine);
+      }
+    }
+  }
+
+  for (let line = startLine; line <= endLine; line++) {
+    if (!visible.has(line)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Remove lock files and files matching ignore globs from a unified diff
+ */
+export function filterDiff(
+  fullDiff: string,
+  lockFiles: string[],
+  ignoreGlobs: string[]
+): string {
+  const lines = fullDiff.split("\n");
+  const filteredLines: string[] = [];
+  let skipFile = false;
+  let currentFilePath = "";
+
+  for (const line of lines) {
+    // Check if this is a new file header
+    if (line.startsWith("diff --git")) {
+      // Extract file path from git diff header
+      // Format: "diff --git a/path/to/file b/path/to/file"
+      const match = line.match(/diff --git a\/(.+?) b\//);
+      currentFilePath = match ? match[1] : "";
+
+      // Check if this file should be skipped (lock files OR ignore globs)
+      const isLockFile = lockFiles.some((lockFile) => line.includes(lockFile));
+      const matchesIgnoreGlob = ignoreGlobs.some((pattern) => {
+        try {
+          return minimatch(currentFilePath, pattern);
+        } catch (error) {
+          // If minimatch fails, fall back to simple string matching
+          return currentFilePath.includes(
+            pattern.replace(/\*\*/g, "").replace(/\*/g, "")
+          );
+        }
+      });
+
+      skipFile = isLockFile || matchesIgnoreGlob;
+    }
+
+    // Include line if we're not skipping this file
+    if (!skipFile) {
+      filteredLines.push(line);
+    }
+  }
+
+  return filteredLines.join("\n");
+}
+
+/**
+ * Build a git-style unified diff for one file from its old and new content
+ * Pass null for the old path of an added file or the new path of a deleted file
+ */
+export function createFileDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  oldContent: string,
+  newContent: string
+): string {
+  const headerPath = newPath || oldPath || "";
+  const header = [`diff --git a/${oldPath || headerPath} b/${headerPath}`];
+
+  if (!oldPath) {
+    header.push("new file mode 100644");
+  } else if (!newPath) {
+    header.push("deleted file mode 100644");
+  } else if (oldPath !== newPath) {
+    header.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+
+  const patch = structuredPatch(
+    oldPath || "/dev/null",
+    newPath || "/dev/null",
+    oldContent,
+    newContent,
+    "",
+    "",
+    { context: 3 }
+  );
+
+  if (patch.hunks.length === 0) {
+    return header.join("\n");
+  }
+
+  header.push(
+    `--- ${oldPath ? `a/${oldPath}` : "/dev/null"}`,
+    `+++ ${newPath ? `b/${newPath}` : "/dev/null"}`
+  );
+
+  const hunks = patch.hunks.map((hunk) => {
+    // git numbers an empty side from the line before it, e.g. "-0,0"
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    return [
+      `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`,
+      ...hunk.lines,
+    ].join("\n");
+  });
+
+  return [...header, ...hunks].join("\n");
+}
+
+/**
+ * Drop the context lines of a unified diff, like `git diff -U0`
+ * Hunks are split at every run of context so line numbers stay correct
+ */
+export function removeDiffContext(diff: string): string {
+  const output: string[] = [];
+  let inHunk = false;
+  let oldLine = 0;
+  let newLine = 0;
+  let group: { oldStart: number; newStart: number; lines: string[] } | null =
+    null;
+
+  const flush = () => {
+    if (!group) {
+      return;
+    }
+    const oldCount = group.lines.filter((line) => line.startsWith("-")).length;
+    const newCount = group.lines.filter((line) => line.startsWith("+")).length;
+    // git numbers an empty side from the line before it
+    const oldStart = oldCount === 0 ? group.oldStart - 1 : group.oldStart;
+    const newStart = newCount === 0 ? group.newStart - 1 : group.newStart;
+    output.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+      ...group.lines
+    );
+    group = null;
+  };
+
+  for (const line of diff.split("\n")) {
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunkMatch) {
+      flush();
+      inHunk = true;
+      oldLine = parseInt(hunkMatch[1]);
+      newLine = parseInt(hunkMatch[2]);
+      continue;
+    }
+
+    const isHunkLine =
+      inHunk &&
+      (line.startsWith("+") ||
+        line.startsWith("-") ||
+        line.startsWith(" ") ||
+        line.startsWith("\\"));
+
+    if (!isHunkLine) {
+      flush();
+      inHunk = false;
+      output.push(line);
+      continue;
+    }
+
+    if (line.startsWith(" ")) {
+      flush();
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      group?.lines.push(line);
+      continue;
+    }
+
+    if (!group) {
+      group = { oldStart: oldLine, newStart: newLine, lines: [] };
+    }
+    group.lines.push(line);
+    if (line.startsWith("-")) {
+      oldLine++;
+    } else {
+      newLine++;
+    }
+  }
+  flush();
+
+  return output.join("\n");
+}
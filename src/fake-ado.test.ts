@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  createConnection,
+  findPullRequest,
+  getAuthenticatedUserId,
+  getReviewerVote,
+  setReviewerVote,
+  updateWorkItem,
+} from "./ado.js";
+import { AzureConfig } from "./ado-http.js";
+import { ReviewFinding } from "./findings.js";
+import { parseUnifiedDiff } from "./diff.js";
+import { GitRemoteInfo } from "./git.js";
+import {
+  listPullRequestThreads,
+  postInlineComments,
+  resolveThread,
+} from "./inline-threads.js";
+import { setPullRequestStatus } from "./pr-status.js";
+import {
+  FakeAdoServer,
+  createFakeAdoState,
+  startFakeAdoServer,
+} from "./fake-ado.js";
+
+const diff = `diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,2 +1,3 @@
+ const a = 1;
++const b = a.value;
+ export { a };
+`;
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "high",
+  category: "bug",
+  file: "src/app.ts",
+  startLine: 2,
+  title: "Null dereference",
+  body: "a has no value",
+};
+
+describe("fake-ado", () => {
+  let fake: FakeAdoServer;
+  let config: AzureConfig;
+  let remoteInfo: GitRemoteInfo;
+
+  beforeEach(async () => {
+    fake = await startFakeAdoServer(
+      createFakeAdoState({
+        pageSize: 2,
+        pullRequests: [
+          { pullRequestId: 42, sourceRefName: "refs/heads/64805/login" },
+        ],
+        workItems: [{ id: 64805, fields: {}, relations: [] }],
+      })
+    );
+    config = {
+      token: "token",
+      org: "contoso",
+      project: "Web App",
+      repo: "web",
+      prId: "42",
+      apiBaseUrl: fake.url,
+    };
+    remoteInfo = {
+      collectionUrl: fake.url,
+      organization: "contoso",
+      project: "Web App",
+      repository: "web",
+    };
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  it("should post, page through and resolve threads", async () => {
+    for (const startLine of [1, 2, 3]) {
+      await postInlineComments(
+        [{ ...finding, id: `F${startLine}`, startLine }],
+        parseUnifiedDiff(diff),
+        config
+      );
+    }
+
+    const threads = await listPullRequestThreads(config);
+    expect(threads.map((thread) => thread.id)).toEqual([1, 2, 3]);
+    expect(
+      fake.state.requests.filter((request) =>
+        request.path.includes("continuationToken=2")
+      )
+    ).toHaveLength(1);
+
+    await resolveThread(config, 2, "Fixed in the latest commit");
+    const [, resolved] = fake.state.pullRequests[0].threads;
+    expect(resolved.status).toBe("fixed");
+    expect(resolved.comments.at(-1)?.content).toBe(
+      "Fixed in the latest commit"
+    );
+  });
+
+  it("should set statuses", async () => {
+    await setPullRequestStatus(config, {
+      state: "succeeded",
+      description: "No blocking findings",
+    });
+
+    expect(fake.state.pullRequests[0].statuses).toMatchObject([
+      { id: 1, state: "succeeded", context: { name: "verdict" } },
+    ]);
+  });
+
+  it("should vote through the Azure DevOps client", async () => {
+    const connection = createConnection(fake.url, "token");
+    const reviewerId = await getAuthenticatedUserId(connection);
+
+    expect(await getReviewerVote(connection, remoteInfo, 42, reviewerId)).toBe(
+      null
+    );
+    await setReviewerVote(connection, remoteInfo, 42, reviewerId, -5);
+    expect(await getReviewerVote(connection, remoteInfo, 42, reviewerId)).toBe(
+      -5
+    );
+  });
+
+  it("should find the pull request and link the work item", async () => {
+    const connection = createConnection(fake.url, "token");
+    const pr = await findPullRequest(connection, remoteInfo, "64805/login");
+    expect(pr?.pullRequestId).toBe(42);
+
+    const result = await updateWorkItem(
+      remoteInfo,
+      "64805/login",
+      "64805",
+      "token"
+    );
+
+    expect(result.success).toBe(true);
+    expect(fake.state.workItems[0].relations).toEqual([
+      expect.objectContaining({
+        rel: "ArtifactLink",
+        url: "vstfs:///Git/PullRequestId/project-id%2frepo-id%2f42",
+      }),
+    ]);
+  });
+});
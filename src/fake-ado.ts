@@ -0,0 +1,630 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * An in-memory Azure DevOps collection for tests and local runs: pull
+ * requests, threads, comments, statuses, reviewers and work items, served
+ * under http://127.0.0.1:<port>/<organization>
+ */
+
+export interface FakeIdentity {
+  id: string;
+  displayName: string;
+}
+
+export interface FakeComment {
+  id: number;
+  parentCommentId: number;
+  content: string;
+  commentType: string;
+  author: FakeIdentity;
+}
+
+export interface FakeThread {
+  id: number;
+  status: string;
+  threadContext?: unknown;
+  comments: FakeComment[];
+}
+
+export interface FakeStatus {
+  id: number;
+  state: string;
+  description?: string;
+  context: { genre?: string; name: string };
+  targetUrl?: string;
+}
+
+export interface FakeReviewer extends FakeIdentity {
+  vote: number;
+}
+
+export interface FakePullRequest {
+  pullRequestId: number;
+  title: string;
+  description?: string;
+  status: string;
+  sourceRefName: string;
+  targetRefName: string;
+  createdBy: FakeIdentity;
+  lastMergeSourceCommit?: { commitId: string };
+  workItemRefs: { id: string; url?: string }[];
+  reviewers: FakeReviewer[];
+  threads: FakeThread[];
+  statuses: FakeStatus[];
+  // Commits of each iteration, oldest first
+  iterations: { sourceCommit: string; commonCommit: string }[];
+  // Change entries of the latest iteration
+  changes: unknown[];
+}
+
+export interface FakeWorkItem {
+  id: number;
+  fields: Record<string, unknown>;
+  relations: { rel: string; url: string; attributes?: unknown }[];
+}
+
+export interface FakeRequest {
+  method: string;
+  // Relative to the collection, with the query string
+  path: string;
+  body?: unknown;
+}
+
+export interface FakeAdoState {
+  organization: string;
+  project: { id: string; name: string };
+  repository: { id: string; name: string; defaultBranch: string };
+  // The identity every token authenticates as
+  user: FakeIdentity;
+  pullRequests: FakePullRequest[];
+  workItems: FakeWorkItem[];
+  // Blob contents by object id
+  blobs: Record<string, string>;
+  // Threads per page of the thread list, to exercise continuation tokens
+  pageSize: number;
+  // Answer every request with the sign-in page, like Azure DevOps does for an
+  // expired or invalid token
+  signInPage: boolean;
+  requests: FakeRequest[];
+}
+
+export interface FakeAdoSeed extends Partial<
+  Omit<FakeAdoState, "pullRequests">
+> {
+  pullRequests?: (Partial<FakePullRequest> & { pullRequestId: number })[];
+}
+
+export interface FakeAdoServer {
+  // Collection URL to pass as --ado-base-url
+  url: string;
+  state: FakeAdoState;
+  close(): Promise<void>;
+}
+
+const THREAD_STATUSES = [
+  "unknown",
+  "active",
+  "fixed",
+  "wontFix",
+  "closed",
+  "byDesign",
+  "pending",
+];
+
+const PULL_REQUEST_STATUSES = [
+  "notSet",
+  "active",
+  "abandoned",
+  "completed",
+  "all",
+];
+
+// Resource locations the azure-devops-node-api client discovers with OPTIONS
+const RESOURCE_LOCATIONS = [
+  [
+    "Location",
+    "ResourceAreas",
+    "e81700f7-3be2-46de-8624-2eb35882fcaa",
+    "_apis/{resource}/{areaId}",
+  ],
+  [
+    "git",
+    "pullRequests",
+    "9946fd70-0d40-406e-b686-b4744cbbcc37",
+    "{project}/_apis/{area}/repositories/{repositoryId}/{resource}/{pullRequestId}",
+  ],
+  [
+    "git",
+    "iterations",
+    "d43911ee-6958-46b0-a42b-8445b8a0d004",
+    "{project}/_apis/{area}/repositories/{repositoryId}/pullRequests/{pullRequestId}/{resource}/{iterationId}",
+  ],
+  [
+    "git",
+    "changes",
+    "4216bdcf-b6b1-4d59-8b82-c34cc183fc8b",
+    "{project}/_apis/{area}/repositories/{repositoryId}/pullRequests/{pullRequestId}/iterations/{iterationId}/{resource}",
+  ],
+  [
+    "git",
+    "blobs",
+    "7b28e929-2c99-405d-9c5c-6167a06e6816",
+    "{project}/_apis/{area}/repositories/{repositoryId}/{resource}/{sha1}",
+  ],
+  [
+    "git",
+    "repositories",
+    "225f7195-f9c7-4d14-ab28-a83f7ff77e1f",
+    "{project}/_apis/{area}/{resource}/{repositoryId}",
+  ],
+  [
+    "git",
+    "reviewers",
+    "4b6702c7-aa35-4b89-9c96-b9abf6d3e540",
+    "{project}/_apis/{area}/repositories/{repositoryId}/pullRequests/{pullRequestId}/{resource}/{reviewerId}",
+  ],
+  [
+    "wit",
+    "workItems",
+    "72c7ddf8-2cdc-4f60-90cd-ab71c14a399b",
+    "{project}/_apis/{area}/{resource}/{id}",
+  ],
+].map(([area, resourceName, id, routeTemplate]) => ({
+  id,
+  area,
+  resourceName,
+  routeTemplate,
+  resourceVersion: 3,
+  minVersion: "1.0",
+  maxVersion: "7.2",
+  releasedVersion: "7.2",
+}));
+
+class FakeError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Build the fake's state, filling in defaults for anything the seed leaves out
+ */
+export function createFakeAdoState(seed: FakeAdoSeed = {}): FakeAdoState {
+  const user = seed.user || {
+    id: "00000000-0000-0000-0000-00000000b07",
+    displayName: "Review Bot",
+  };
+
+  return {
+    organization: seed.organization || "contoso",
+    project: seed.project || { id: "project-id", name: "Web App" },
+    repository: seed.repository || {
+      id: "repo-id",
+      name: "web",
+      defaultBranch: "refs/heads/main",
+    },
+    user,
+    pullRequests: (seed.pullRequests || []).map((pr) => ({
+      title: `Pull request ${pr.pullRequestId}`,
+      status: "active",
+      sourceRefName: "refs/heads/feature",
+      targetRefName: "refs/heads/main",
+      createdBy: { id: "author-id", displayName: "Author" },
+      workItemRefs: [],
+      reviewers: [],
+      threads: [],
+      statuses: [],
+      iterations: [],
+      changes: [],
+      ...pr,
+    })),
+    workItems: seed.workItems || [],
+    blobs: seed.blobs || {},
+    pageSize: seed.pageSize || 100,
+    signInPage: seed.signInPage || false,
+    requests: [],
+  };
+}
+
+function toStatusName(value: unknown, names: string[]): string {
+  return typeof value === "number" ? names[value] || "unknown" : String(value);
+}
+
+function matchRoute(
+  route: string[],
+  pattern: string
+): Record<string, string> | null {
+  const parts = pattern.split("/");
+  if (parts.length !== route.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith(":")) {
+      params[parts[i].slice(1)] = route[i];
+    } else if (parts[i].toLowerCase() !== route[i].toLowerCase()) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function serializePullRequest(state: FakeAdoState, pr: FakePullRequest) {
+  const { threads, statuses, iterations, changes, ...rest } = pr;
+  return {
+    ...rest,
+    repository: {
+      ...state.repository,
+      project: state.project,
+    },
+  };
+}
+
+function nextId(items: { id: number }[]): number {
+  return items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+}
+
+/**
+ * Answer one request against the state
+ * Returns the JSON body, or a string for blob downloads
+ */
+function handleRequest(
+  state: FakeAdoState,
+  method: string,
+  url: URL,
+  body: any
+): { status: number; body: unknown; headers?: Record<string, string> } {
+  const segments = url.pathname
+    .split("/")
+    .filter(Boolean)
+    .map(decodeURIComponent);
+  const apis = segments.findIndex((segment) => segment === "_apis");
+  if (apis === -1) {
+    throw new FakeError(404, `Not an API URL: ${url.pathname}`);
+  }
+
+  // The first segment is the organization, the next one the project if any
+  const project = apis > 1 ? segments[apis - 1] : undefined;
+  if (
+    project &&
+    project !== state.project.name &&
+    project !== state.project.id
+  ) {
+    throw new FakeError(404, `Project ${project} not found`);
+  }
+  const route = segments.slice(apis + 1);
+
+  if (method === "OPTIONS") {
+    const area = route[0]?.toLowerCase();
+    const value = RESOURCE_LOCATIONS.filter(
+      (location) => location.area.toLowerCase() === area
+    );
+    return { status: 200, body: { count: value.length, value } };
+  }
+
+  const on = (verb: string, pattern: string) =>
+    verb === method ? matchRoute(route, pattern) : null;
+  const findRepository = (name: string) => {
+    if (name !== state.repository.name && name !== state.repository.id) {
+      throw new FakeError(404, `Repository ${name} not found`);
+    }
+    return { ...state.repository, project: state.project };
+  };
+  const findPullRequest = (params: Record<string, string>) => {
+    findRepository(params.repo);
+    const pr = state.pullRequests.find(
+      (item) => item.pullRequestId === Number(params.pr)
+    );
+    if (!pr) {
+      throw new FakeError(404, `Pull request ${params.pr} not found`);
+    }
+    return pr;
+  };
+  const findThread = (params: Record<string, string>) => {
+    const thread = findPullRequest(params).threads.find(
+      (item) => item.id === Number(params.thread)
+    );
+    if (!thread) {
+      throw new FakeError(404, `Thread ${params.thread} not found`);
+    }
+    return thread;
+  };
+  const findWorkItem = (id: string) => {
+    const item = state.workItems.find((workItem) => workItem.id === Number(id));
+    if (!item) {
+      throw new FakeError(404, `Work item ${id} not found`);
+    }
+    return item;
+  };
+  const ok = (value: unknown) => ({ status: 200, body: value });
+  let params: Record<string, string> | null;
+
+  if (on("GET", "ResourceAreas")) {
+    // An empty list makes the client use the collection URL for every area
+    return ok({ count: 0, value: [] });
+  }
+  if (on("GET", "connectionData")) {
+    return ok({ authenticatedUser: state.user, authorizedUser: state.user });
+  }
+  if ((params = on("GET", "git/repositories/:repo"))) {
+    return ok(findRepository(params.repo));
+  }
+  if ((params = on("GET", "git/repositories/:repo/pullRequests"))) {
+    findRepository(params.repo);
+    const source = url.searchParams.get("searchCriteria.sourceRefName");
+    const status = url.searchParams.get("searchCriteria.status");
+    const wanted = status
+      ? toStatusName(Number(status) || status, PULL_REQUEST_STATUSES)
+      : "active";
+    const value = state.pullRequests
+      .filter((pr) => !source || pr.sourceRefName === source)
+      .filter((pr) => wanted === "all" || pr.status === wanted)
+      .map((pr) => serializePullRequest(state, pr));
+    return ok({ count: value.length, value });
+  }
+  if ((params = on("POST", "git/repositories/:repo/pullRequests"))) {
+    findRepository(params.repo);
+    const [pr] = createFakeAdoState({
+      pullRequests: [
+        {
+          ...body,
+          pullRequestId:
+            state.pullRequests.reduce(
+              (max, item) => Math.max(max, item.pullRequestId),
+              0
+            ) + 1,
+          createdBy: state.user,
+        },
+      ],
+    }).pullRequests;
+    state.pullRequests.push(pr);
+    return { status: 201, body: serializePullRequest(state, pr) };
+  }
+  if ((params = on("GET", "git/repositories/:repo/pullRequests/:pr"))) {
+    return ok(serializePullRequest(state, findPullRequest(params)));
+  }
+  if (
+    (params = on("GET", "git/repositories/:repo/pullRequests/:pr/iterations"))
+  ) {
+    const value = findPullRequest(params).iterations.map((iteration, i) => ({
+      id: i + 1,
+      sourceRefCommit: { commitId: iteration.sourceCommit },
+      commonRefCommit: { commitId: iteration.commonCommit },
+    }));
+    return ok({ count: value.length, value });
+  }
+  if (
+    (params = on(
+      "GET",
+      "git/repositories/:repo/pullRequests/:pr/iterations/:iteration/changes"
+    ))
+  ) {
+    return ok({ changeEntries: findPullRequest(params).changes });
+  }
+  if ((params = on("GET", "git/repositories/:repo/blobs/:sha"))) {
+    findRepository(params.repo);
+    const content = state.blobs[params.sha];
+    if (content === undefined) {
+      throw new FakeError(404, `Blob ${params.sha} not found`);
+    }
+    return { status: 200, body: content };
+  }
+  if (
+    (params = on("GET", "git/repositories/:repo/pullRequests/:pr/reviewers"))
+  ) {
+    const value = findPullRequest(params).reviewers;
+    return ok({ count: value.length, value });
+  }
+  if (
+    (params = on(
+      "PUT",
+      "git/repositories/:repo/pullRequests/:pr/reviewers/:reviewer"
+    ))
+  ) {
+    const pr = findPullRequest(params);
+    let reviewer = pr.reviewers.find((item) => item.id === params!.reviewer);
+    if (!reviewer) {
+      const identity =
+        params.reviewer === state.user.id
+          ? state.user
+          : { id: params.reviewer, displayName: params.reviewer };
+      reviewer = { ...identity, vote: 0 };
+      pr.reviewers.push(reviewer);
+    }
+    reviewer.vote = body?.vote ?? reviewer.vote;
+    return ok(reviewer);
+  }
+  if ((params = on("GET", "git/repositories/:repo/pullRequests/:pr/threads"))) {
+    const threads = findPullRequest(params).threads;
+    const start = Number(url.searchParams.get("continuationToken")) || 0;
+    const value = threads.slice(start, start + state.pageSize);
+    const next = start + state.pageSize;
+    return {
+      status: 200,
+      body: { count: value.length, value },
+      headers:
+        next < threads.length
+          ? { "x-ms-continuationtoken": String(next) }
+          : undefined,
+    };
+  }
+  if (
+    (params = on("POST", "git/repositories/:repo/pullRequests/:pr/threads"))
+  ) {
+    const pr = findPullRequest(params);
+    const thread: FakeThread = {
+      id: nextId(pr.threads),
+      status: toStatusName(body?.status ?? 1, THREAD_STATUSES),
+      threadContext: body?.threadContext,
+      comments: (body?.comments || []).map((comment: any, i: number) => ({
+        id: i + 1,
+        parentCommentId: comment.parentCommentId || 0,
+        content: comment.content,
+        commentType: "text",
+        author: state.user,
+      })),
+    };
+    pr.threads.push(thread);
+    return ok(thread);
+  }
+  if (
+    (params = on(
+      "PATCH",
+      "git/repositories/:repo/pullRequests/:pr/threads/:thread"
+    ))
+  ) {
+    const thread = findThread(params);
+    if (body?.status !== undefined) {
+      thread.status = toStatusName(body.status, THREAD_STATUSES);
+    }
+    return ok(thread);
+  }
+  if (
+    (params = on(
+      "POST",
+      "git/repositories/:repo/pullRequests/:pr/threads/:thread/comments"
+    ))
+  ) {
+    const thread = findThread(params);
+    const comment: FakeComment = {
+      id: nextId(thread.comments),
+      parentCommentId: body?.parentCommentId || 0,
+      content: body?.content,
+      commentType: "text",
+      author: state.user,
+    };
+    thread.comments.push(comment);
+    return ok(comment);
+  }
+  if (
+    (params = on(
+      "PATCH",
+      "git/repositories/:repo/pullRequests/:pr/threads/:thread/comments/:comment"
+    ))
+  ) {
+    const comment = findThread(params).comments.find(
+      (item) => item.id === Number(params!.comment)
+    );
+    if (!comment) {
+      throw new FakeError(404, `Comment ${params.comment} not found`);
+    }
+    comment.content = body?.content ?? comment.content;
+    return ok(comment);
+  }
+  if (
+    (params = on("GET", "git/repositories/:repo/pullRequests/:pr/statuses"))
+  ) {
+    const value = findPullRequest(params).statuses;
+    return ok({ count: value.length, value });
+  }
+  if (
+    (params = on("POST", "git/repositories/:repo/pullRequests/:pr/statuses"))
+  ) {
+    const pr = findPullRequest(params);
+    const status: FakeStatus = { ...body, id: nextId(pr.statuses) };
+    pr.statuses.push(status);
+    return ok(status);
+  }
+  if ((params = on("GET", "wit/workItems/:id"))) {
+    const item = findWorkItem(params.id);
+    return ok({ ...item, rev: 1 });
+  }
+  if ((params = on("PATCH", "wit/workItems/:id"))) {
+    const item = findWorkItem(params.id);
+    for (const operation of Array.isArray(body) ? body : []) {
+      if (operation.path === "/relations/-" && operation.op === "add") {
+        item.relations.push(operation.value);
+      } else if (operation.path?.startsWith("/fields/")) {
+        item.fields[operation.path.slice("/fields/".length)] = operation.value;
+      }
+    }
+    return ok({ ...item, rev: 2 });
+  }
+
+  throw new FakeError(404, `No fake route for ${method} ${url.pathname}`);
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Create the HTTP server of the fake; every token is accepted unless the
+ * state asks for the sign-in page
+ */
+export function createFakeAdoServer(state: FakeAdoState): http.Server {
+  return http.createServer(async (request, response) => {
+    const method = request.method || "GET";
+    const url = new URL(request.url || "/", "http://localhost");
+    const raw = await readBody(request);
+
+    let body: unknown;
+    try {
+      body = raw ? JSON.parse(raw) : undefined;
+    } catch {
+      body = raw;
+    }
+
+    const prefix = `/${state.organization}`;
+    state.requests.push({
+      method,
+      path: url.pathname.startsWith(prefix)
+        ? `${url.pathname.slice(prefix.length)}${url.search}`
+        : `${url.pathname}${url.search}`,
+      body,
+    });
+
+    if (state.signInPage) {
+      response.writeHead(203, { "Content-Type": "text/html; charset=utf-8" });
+      response.end("<html><head><title>Sign In</title></head></html>");
+      return;
+    }
+
+    try {
+      const result = handleRequest(state, method, url, body);
+      const text = typeof result.body === "string";
+      response.writeHead(result.status, {
+        "Content-Type": text ? "application/octet-stream" : "application/json",
+        ...result.headers,
+      });
+      response.end(text ? result.body : JSON.stringify(result.body));
+    } catch (error) {
+      const statusCode = error instanceof FakeError ? error.statusCode : 500;
+      response.writeHead(statusCode, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ message: (error as Error).message }));
+    }
+  });
+}
+
+/**
+ * Listen on a local port; port 0 picks a free one
+ */
+export async function startFakeAdoServer(
+  state: FakeAdoState,
+  port: number = 0
+): Promise<FakeAdoServer> {
+  const server = createFakeAdoServer(state);
+  await new Promise<void>((resolve) =>
+    server.listen(port, "127.0.0.1", resolve)
+  );
+  const { port: actualPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${actualPort}/${state.organization}`,
+    state,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
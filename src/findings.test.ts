@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseReviewOutput,
+  validateReviewOutput,
+  formatFindingLocation,
+  renderReviewMarkdown,
+  renderFindingMarkdown,
+  countFindingsBySeverity,
+} from "./findings.js";
+import type { ReviewFinding } from "./findings.js";
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "high",
+  category: "bug",
+  file: "src/foo.ts",
+  startLine: 10,
+  endLine: 12,
+  title: "Off by one",
+  body: "The loop skips the last element.",
+  suggestedFix: "for (let i = 0; i <= items.length - 1; i++) {",
+};
+
+describe("findings", () => {
+  describe("parseReviewOutput", () => {
+    it("should parse valid review JSON", () => {
+      const result = parseReviewOutput(
+        JSON.stringify({ summary: "Looks good", findings: [finding] })
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.output).toEqual({
+        summary: "Looks good",
+        findings: [finding],
+      });
+    });
+
+    it("should accept JSON wrapped in a code fence", () => {
+      const result = parseReviewOutput(
+        '```json\n{"summary": "ok", "findings": []}\n```'
+      );
+
+      expect(result.output).toEqual({ summary: "ok", findings: [] });
+    });
+
+    it("should report invalid JSON", () => {
+      const result = parseReviewOutput("# Review\n\nNot JSON");
+
+      expect(result.output).toBeUndefined();
+      expect(result.errors[0]).toMatch(/^Invalid JSON/);
+    });
+  });
+
+  describe("validateReviewOutput", () => {
+    it("should report every invalid field", () => {
+      const result = validateReviewOutput({
+        summary: 42,
+        findings: [
+          { severity: "blocker", category: "bug", title: "", body: "x" },
+          {
+            severity: "low",
+            category: "style",
+            title: "t",
+            body: "b",
+            file: "src/foo.ts",
+            startLine: 0,
+          },
+        ],
+      });
+
+      expect(result.output).toBeUndefined();
+      expect(result.errors).toEqual([
+        "summary must be a string",
+        "findings[0].severity must be one of critical, high, medium, low, info",
+        "findings[0].title must be a non-empty string",
+        "findings[1].startLine must be a positive integer",
+      ]);
+    });
+
+    it("should require a file when a line is given", () => {
+      const result = validateReviewOutput({
+        summary: "",
+        findings: [
+          {
+            severity: "low",
+            category: "bug",
+            title: "t",
+            body: "b",
+            startLine: 3,
+          },
+        ],
+      });
+
+      expect(result.errors).toEqual([
+        "findings[0].file is required when startLine is set",
+      ]);
+    });
+
+    it("should generate missing and duplicate ids", () => {
+      const result = validateReviewOutput({
+        summary: "",
+        findings: [
+          { severity: "low", category: "bug", title: "a", body: "b" },
+          { id: "F1", severity: "low", category: "bug", title: "c", body: "d" },
+        ],
+      });
+
+      expect(result.output?.findings.map((f) => f.id)).toEqual(["F1", "F1-2"]);
+    });
+  });
+
+  describe("formatFindingLocation", () => {
+    it("should format file and line range", () => {
+      expect(formatFindingLocation(finding)).toBe("src/foo.ts:10-12");
+      expect(formatFindingLocation({ ...finding, endLine: undefined })).toBe(
+        "src/foo.ts:10"
+      );
+      expect(formatFindingLocation({ ...finding, startLine: undefined })).toBe(
+        "src/foo.ts"
+      );
+      expect(formatFindingLocation({ ...finding, file: undefined })).toBe("");
+    });
+  });
+
+  describe("renderReviewMarkdown", () => {
+    it("should render findings grouped by severity", () => {
+      const markdown = renderReviewMarkdown({
+        summary: "Summary text",
+        findings: [
+          { ...finding, id: "F2", severity: "low", title: "Minor" },
+          finding,
+        ],
+      });
+
+      expect(markdown).toContain("## Summary\n\nSummary text");
+      expect(markdown.indexOf("### 🟠 High")).toBeLessThan(
+        markdown.indexOf("### 🔵 Low")
+      );
+      expect(markdown).toContain("#### [F1] Off by one");
+      expect(markdown).toContain("`src/foo.ts:10-12`");
+      expect(markdown).toContain("**Suggested fix:**");
+    });
+
+    it("should say when there are no findings", () => {
+      expect(renderReviewMarkdown({ summary: "ok", findings: [] })).toContain(
+        "No issues found."
+      );
+    });
+  });
+
+  describe("renderFindingMarkdown", () => {
+    it("should render suggestions as a suggestion block in inline threads", () => {
+      const withSuggestion = {
+        ...finding,
+        suggestion: "for (const item of items) {",
+      };
+
+      expect(renderFindingMarkdown(withSuggestion, true)).toContain(
+        "```suggestion\nfor (const item of items) {\n```"
+      );
+      expect(renderFindingMarkdown(withSuggestion)).toContain(
+        "**Suggested change:**\n\n```\nfor (const item of items) {\n```"
+      );
+    });
+  });
+
+  describe("countFindingsBySeverity", () => {
+    it("should count every severity", () => {
+      expect(countFindingsBySeverity([finding, finding])).toEqual({
+        critical: 0,
+        high: 2,
+        medium: 0,
+        low: 0,
+        info: 0,
+      });
+    });
+  });
+});
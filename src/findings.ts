@@ -0,0 +1,383 @@
+export const SEVERITIES = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "info",
+] as const;
+
+export const CATEGORIES = [
+  "bug",
+  "security",
+  "performance",
+  "quality",
+  "tests",
+  "documentation",
+  "style",
+  "other",
+] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+export type Category = (typeof CATEGORIES)[number];
+
+export interface ReviewFinding {
+  id: string;
+  severity: Severity;
+  category: Category;
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+  side?: "left" | "right";
+  title: string;
+  body: string;
+  suggestedFix?: string;
+  // Exact replacement for the lines startLine-endLine on the right side
+  suggestion?: string;
+  // The lines the suggestion replaces, recorded from the diff after the review
+  originalCode?: string;
+  // Review lens that reported the finding, when reviewing with lenses
+  lens?: string;
+}
+
+export interface ReviewOutput {
+  summary: string;
+  findings: ReviewFinding[];
+  lenses?: string[];
+}
+
+export interface ReviewValidationResult {
+  output?: ReviewOutput;
+  errors: string[];
+}
+
+/**
+ * JSON schema Claude is asked to follow when writing the review
+ */
+export const REVIEW_OUTPUT_SCHEMA = {
+  type: "object",
+  required: ["summary", "findings"],
+  properties: {
+    summary: {
+      type: "string",
+      description: "Short markdown overview of the changes and the review",
+    },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "severity", "category", "title", "body"],
+        properties: {
+          id: { type: "string", description: "Unique id such as F1, F2" },
+          severity: { enum: [...SEVERITIES] },
+          category: { enum: [...CATEGORIES] },
+          file: {
+            type: "string",
+            description: "Path relative to the repository root, as in the diff",
+          },
+          startLine: { type: "integer", minimum: 1 },
+          endLine: { type: "integer", minimum: 1 },
+          side: {
+            enum: ["left", "right"],
+            description:
+              "right for added or unchanged lines (new file line numbers), left for deleted lines (old file line numbers)",
+          },
+          title: { type: "string", description: "One line summary" },
+          body: { type: "string", description: "Markdown explanation" },
+          suggestedFix: {
+            type: "string",
+            description: "Replacement code or a concrete fix",
+          },
+          suggestion: {
+            type: "string",
+            description:
+              "Exact code that replaces lines startLine-endLine of the new file, including indentation; only for right side findings with a concrete, self-contained fix",
+          },
+        },
+      },
+    },
+  },
+};
+
+const SEVERITY_ICONS: Record<Severity, string> = {
+  critical: "🔴",
+  high: "🟠",
+  medium: "🟡",
+  low: "🔵",
+  info: "⚪",
+};
+
+/**
+ * Parse and validate review JSON written by Claude
+ * Tolerates a surrounding markdown code fence; missing ids are generated
+ */
+export function parseReviewOutput(text: string): ReviewValidationResult {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*\n/, "")
+    .replace(/\n```\s*$/, "");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+
+  return validateReviewOutput(data);
+}
+
+/**
+ * Validate parsed review data against the review schema
+ */
+export function validateReviewOutput(data: unknown): ReviewValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { errors: ["Review must be a JSON object"] };
+  }
+
+  if (typeof data.summary !== "string") {
+    errors.push("summary must be a string");
+  }
+
+  if (!Array.isArray(data.findings)) {
+    errors.push("findings must be an array");
+    return { errors };
+  }
+
+  const findings: ReviewFinding[] = [];
+  const ids = new Set<string>();
+
+  data.findings.forEach((item: unknown, index: number) => {
+    const path = `findings[${index}]`;
+
+    if (!isObject(item)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const findingErrors: string[] = [];
+
+    if (!SEVERITIES.includes(item.severity as Severity)) {
+      findingErrors.push(
+        `${path}.severity must be one of ${SEVERITIES.join(", ")}`
+      );
+    }
+    if (!CATEGORIES.includes(item.category as Category)) {
+      findingErrors.push(
+        `${path}.category must be one of ${CATEGORIES.join(", ")}`
+      );
+    }
+    for (const field of ["title", "body"]) {
+      if (typeof item[field] !== "string" || !item[field].trim()) {
+        findingErrors.push(`${path}.${field} must be a non-empty string`);
+      }
+    }
+    for (const field of [
+      "id",
+      "file",
+      "suggestedFix",
+      "suggestion",
+      "originalCode",
+      "lens",
+    ]) {
+      if (item[field] !== undefined && typeof item[field] !== "string") {
+        findingErrors.push(`${path}.${field} must be a string`);
+      }
+    }
+    for (const field of ["startLine", "endLine"]) {
+      const value = item[field];
+      if (
+        value !== undefined &&
+        (!Number.isInteger(value) || (value as number) < 1)
+      ) {
+        findingErrors.push(`${path}.${field} must be a positive integer`);
+      }
+    }
+    if (
+      item.side !== undefined &&
+      item.side !== "left" &&
+      item.side !== "right"
+    ) {
+      findingErrors.push(`${path}.side must be "left" or "right"`);
+    }
+    if (item.startLine !== undefined && item.file === undefined) {
+      findingErrors.push(`${path}.file is required when startLine is set`);
+    }
+
+    if (findingErrors.length > 0) {
+      errors.push(...findingErrors);
+      return;
+    }
+
+    let id = (item.id as string | undefined)?.trim() || `F${index + 1}`;
+    if (ids.has(id)) {
+      id = `${id}-${index + 1}`;
+    }
+    ids.add(id);
+
+    const startLine = item.startLine as number | undefined;
+    const endLine = item.endLine as number | undefined;
+
+    findings.push({
+      id,
+      severity: item.severity as Severity,
+      category: item.category as Category,
+      file: item.file as string | undefined,
+      startLine,
+      endLine:
+        startLine !== undefined && endLine !== undefined
+          ? Math.max(startLine, endLine)
+          : undefined,
+      side: item.side as "left" | "right" | undefined,
+      title: (item.title as string).trim(),
+      body: (item.body as string).trim(),
+      suggestedFix: item.suggestedFix as string | undefined,
+      ...(item.suggestion !== undefined && {
+        suggestion: item.suggestion as string,
+      }),
+      ...(item.originalCode !== undefined && {
+        originalCode: item.originalCode as string,
+      }),
+      ...(item.lens !== undefined && { lens: item.lens as string }),
+    });
+  });
+
+  const lenses = data.lenses;
+  if (
+    lenses !== undefined &&
+    (!Array.isArray(lenses) ||
+      !lenses.every((lens) => typeof lens === "string"))
+  ) {
+    errors.push("lenses must be an array of strings");
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    output: {
+      summary: (data.summary as string).trim(),
+      findings,
+      ...(lenses !== undefined && { lenses: lenses as string[] }),
+    },
+    errors,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format the file and line range of a finding, e.g. src/foo.ts:10-12
+ */
+export function formatFindingLocation(finding: ReviewFinding): string {
+  if (!finding.file) {
+    return "";
+  }
+  if (finding.startLine === undefined) {
+    return finding.file;
+  }
+  const range =
+    finding.endLine && finding.endLine > finding.startLine
+      ? `${finding.startLine}-${finding.endLine}`
+      : `${finding.startLine}`;
+  return `${finding.file}:${range}`;
+}
+
+/**
+ * Render a single finding as markdown, e.g. for an inline thread
+ */
+export function renderFindingMarkdown(
+  finding: ReviewFinding,
+  asSuggestion = false
+): string {
+  return `**${finding.title}**\n\n${renderFindingDetails(finding, asSuggestion)}`;
+}
+
+/**
+ * `asSuggestion` renders the suggestion as an Azure DevOps suggestion block,
+ * which only applies in a thread anchored to the suggestion's lines
+ */
+function renderFindingDetails(
+  finding: ReviewFinding,
+  asSuggestion = false
+): string {
+  const location = formatFindingLocation(finding);
+  const meta = [
+    `${SEVERITY_ICONS[finding.severity]} **${finding.severity}**`,
+    finding.category,
+    location ? `\`${location}\`` : "",
+  ].filter(Boolean);
+
+  const sections = [meta.join(" · "), finding.body];
+
+  if (finding.suggestedFix) {
+    sections.push(
+      `**Suggested fix:**\n\n\`\`\`\n${finding.suggestedFix.replace(/\n$/, "")}\n\`\`\``
+    );
+  }
+
+  if (finding.suggestion !== undefined) {
+    sections.push(
+      `**Suggested change:**\n\n\`\`\`${asSuggestion ? "suggestion" : ""}\n${finding.suggestion.replace(/\n$/, "")}\n\`\`\``
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Render a list of findings grouped by severity, most severe first
+ */
+export function renderFindingsMarkdown(findings: ReviewFinding[]): string {
+  const sections: string[] = [];
+
+  for (const severity of SEVERITIES) {
+    const group = findings.filter((finding) => finding.severity === severity);
+    if (group.length === 0) {
+      continue;
+    }
+
+    const title = severity.charAt(0).toUpperCase() + severity.slice(1);
+    const items = group.map(
+      (finding) =>
+        `#### [${finding.id}] ${finding.title}\n\n${renderFindingDetails(finding)}`
+    );
+    sections.push(
+      `### ${SEVERITY_ICONS[severity]} ${title}\n\n${items.join("\n\n")}`
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Render the full review comment from structured output
+ */
+export function renderReviewMarkdown(output: ReviewOutput): string {
+  const findings =
+    output.findings.length > 0
+      ? renderFindingsMarkdown(output.findings)
+      : "No issues found.";
+
+  return `## Summary\n\n${output.summary}\n\n## Findings\n\n${findings}`;
+}
+
+/**
+ * Count findings per severity
+ */
+export function countFindingsBySeverity(
+  findings: ReviewFinding[]
+): Record<Severity, number> {
+  const counts = Object.fromEntries(
+    SEVERITIES.map((severity) => [severity, 0])
+  ) as Record<Severity, number>;
+
+  for (const finding of findings) {
+    counts[finding.severity]++;
+  }
+  return counts;
+}
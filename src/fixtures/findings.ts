@@ -0,0 +1,17 @@
+import { ReviewFinding } from "../findings.js";
+
+/**
+ * A high severity bug finding on src/app.ts, for tests
+ */
+export function finding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    id: "F1",
+    severity: "high",
+    category: "bug",
+    file: "src/app.ts",
+    startLine: 10,
+    title: "Null dereference",
+    body: "The value can be null",
+    ...overrides,
+  };
+}
@@ -6,6 +6,12 @@ import {
   getRemoteUrl,
   parseAzureDevOpsRemote,
   isGitRepository,
+  getCommitSha,
+  getMergeBase,
+  isAncestorOfHead,
+  refExists,
+  isSafeBranchName,
+  getDiffArgs,
 } from "./git.js";
 
 // Mock zx
@@ -90,6 +96,7 @@ describe("git utilities", () => {
       const result = parseAzureDevOpsRemote(url);
 
       expect(result).toEqual({
+        collectionUrl: "https://dev.azure.com/convergentis",
         organization: "convergentis",
         project: "CIS Planning", // URL decoded
         repository: "PGW-TemplateBuilder-BTP",
@@ -102,6 +109,7 @@ describe("git utilities", () => {
       const result = parseAzureDevOpsRemote(url);
 
       expect(result).toEqual({
+        collectionUrl: "https://convergentis.visualstudio.com",
         organization: "convergentis",
         project: "CIS Planning",
         repository: "PGW-TemplateBuilder-BTP",
@@ -115,7 +123,55 @@ describe("git utilities", () => {
       expect(result.project).toBe("My Project Name");
     });
 
+    it("should parse user@ HTTPS, SSH v3 and visualstudio.com remotes", () => {
+      expect(
+        parseAzureDevOpsRemote(
+          "https://convergentis@dev.azure.com/convergentis/Planning/_git/repo"
+        ).collectionUrl
+      ).toBe("https://dev.azure.com/convergentis");
+      expect(
+        parseAzureDevOpsRemote(
+          "git@ssh.dev.azure.com:v3/convergentis/Planning/repo"
+        )
+      ).toEqual({
+        collectionUrl: "https://dev.azure.com/convergentis",
+        organization: "convergentis",
+        project: "Planning",
+        repository: "repo",
+      });
+      expect(
+        parseAzureDevOpsRemote(
+          "https://convergentis.visualstudio.com/DefaultCollection/Planning/_git/repo"
+        )
+      ).toEqual({
+        collectionUrl: "https://convergentis.visualstudio.com",
+        organization: "convergentis",
+        project: "Planning",
+        repository: "repo",
+      });
+    });
+
+    it("should parse Azure DevOps Server remotes", () => {
+      expect(
+        parseAzureDevOpsRemote(
+          "https://tfs.corp/tfs/Main%20Collection/Planning/_git/repo"
+        )
+      ).toEqual({
+        collectionUrl: "https://tfs.corp/tfs/Main%20Collection",
+        organization: "Main Collection",
+        project: "Planning",
+        repository: "repo",
+      });
+      expect(
+        parseAzureDevOpsRemote("ssh://tfs.corp:22/tfs/Main/Planning/_git/repo")
+          .collectionUrl
+      ).toBe("https://tfs.corp/tfs/Main");
+    });
+
     it("should throw error for invalid URLs", () => {
+      expect(() =>
+        parseAzureDevOpsRemote("https://dev.azure.com/convergentis/_git/repo")
+      ).toThrow("Unable to parse Azure DevOps remote URL");
       expect(() =>
         parseAzureDevOpsRemote("https://github.com/user/repo")
       ).toThrow("Unable to parse Azure DevOps remote URL");
@@ -145,4 +201,99 @@ describe("git utilities", () => {
       expect(result).toBe(false);
     });
   });
+
+  describe("getCommitSha", () => {
+    it("should resolve HEAD by default", async () => {
+      mockZx.mockResolvedValue({
+        stdout: "abc123def456\n",
+        stderr: "",
+        exitCode: 0,
+      } as any);
+
+      const result = await getCommitSha();
+      expect(result).toBe("abc123def456");
+      expect(mockZx).toHaveBeenCalledWith(["git rev-parse ", ""], "HEAD");
+    });
+
+    it("should throw error when the ref can't be resolved", async () => {
+      mockZx.mockRejectedValue(new Error("unknown revision"));
+
+      await expect(getCommitSha("missing")).rejects.toThrow(
+        "Failed to resolve missing"
+      );
+    });
+  });
+
+  describe("getMergeBase", () => {
+    it("should return the merge base with the branch", async () => {
+      mockZx.mockResolvedValue({
+        stdout: "0123456789\n",
+        stderr: "",
+        exitCode: 0,
+      } as any);
+
+      const result = await getMergeBase("main");
+      expect(result).toBe("0123456789");
+    });
+  });
+
+  describe("isAncestorOfHead", () => {
+    it("should return true when the commit is in the history", async () => {
+      mockZx.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+      expect(await isAncestorOfHead("abc123")).toBe(true);
+    });
+
+    it("should return false when the commit is unreachable", async () => {
+      mockZx.mockRejectedValue(new Error("exit code 1"));
+
+      expect(await isAncestorOfHead("abc123")).toBe(false);
+    });
+  });
+
+  describe("refExists", () => {
+    it("should pass the ref as an argument, not through a shell", async () => {
+      mockZx.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+      expect(await refExists("origin/main")).toBe(true);
+      expect(mockZx).toHaveBeenCalledWith(
+        ["git rev-parse --verify --quiet ", ""],
+        "origin/main"
+      );
+    });
+
+    it("should return false when the ref doesn't exist", async () => {
+      mockZx.mockRejectedValue(new Error("exit code 1"));
+
+      expect(await refExists("origin/missing")).toBe(false);
+    });
+  });
+
+  describe("isSafeBranchName", () => {
+    it("should accept branch names and reject shell syntax and options", () => {
+      expect(isSafeBranchName("main")).toBe(true);
+      expect(isSafeBranchName("release/1.2_rc-1")).toBe(true);
+      expect(isSafeBranchName("a$(touch${IFS}pwned)")).toBe(false);
+      expect(isSafeBranchName("main;reboot")).toBe(false);
+      expect(isSafeBranchName("feature branch")).toBe(false);
+      expect(isSafeBranchName("--output=/tmp/x")).toBe(false);
+      expect(isSafeBranchName("")).toBe(false);
+    });
+  });
+
+  describe("getDiffArgs", () => {
+    it("should build git diff arguments for each mode", () => {
+      expect(getDiffArgs({ type: "branch", compareBranch: "main" })).toEqual([
+        "main...HEAD",
+      ]);
+      expect(getDiffArgs({ type: "staged" })).toEqual(["--cached"]);
+      expect(getDiffArgs({ type: "workingTree" })).toEqual(["HEAD"]);
+      expect(getDiffArgs({ type: "range", range: "v1.0..v1.1" })).toEqual([
+        "v1.0..v1.1",
+      ]);
+      expect(getDiffArgs({ type: "commit", sha: "abc123" })).toEqual([
+        "abc123^!",
+      ]);
+    });
+  });
 });
@@ -1,6 +1,14 @@
 import { $ } from "zx";
+import {
+  getCloudCollectionUrl,
+  getCollectionName,
+  normalizeCollectionUrl,
+} from "./collection-url.js";
 
 export interface GitRemoteInfo {
+  // Base URL of the organization or Azure DevOps Server collection
+  collectionUrl: string;
+  // Organization, or the collection name on Azure DevOps Server
   organization: string;
   project: string;
   repository: string;
@@ -40,38 +48,66 @@ export async function getRemoteUrl(): Promise<string> {
 }
 
 /**
- * Parse Azure DevOps remote URL to extract organization, project, and repository
- * Supports both HTTPS and SSH formats:
- * - https://dev.azure.com/convergentis/CIS%20Planning/_git/repo
+ * Parse Azure DevOps remote URL to extract the collection, project, and repository
+ * Supports HTTPS and SSH remotes of Azure DevOps Services and Server:
+ * - https://[user@]dev.azure.com/convergentis/CIS%20Planning/_git/repo
+ * - https://convergentis.visualstudio.com[/DefaultCollection]/CIS%20Planning/_git/repo
+ * - git@ssh.dev.azure.com:v3/convergentis/CIS%20Planning/repo
  * - convergentis@vs-ssh.visualstudio.com:v3/convergentis/CIS%20Planning/repo
+ * - https://tfs.corp/tfs/Collection/Project/_git/repo
  */
 export function parseAzureDevOpsRemote(remoteUrl: string): GitRemoteInfo {
-  // HTTPS format
-  const httpsMatch = remoteUrl.match(
-    /https:\/\/dev\.azure\.com\/([^\/]+)\/([^\/]+)\/_git\/([^\/]+)/
+  const url = remoteUrl.trim().replace(/\.git$/, "");
+
+  // SSH format of Azure DevOps Services
+  const sshMatch = url.match(
+    /^(?:ssh:\/\/)?[^@\/]+@(ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com)[:\/]v3\/([^\/]+)\/([^\/]+)\/([^\/]+)$/
   );
-  if (httpsMatch) {
+  if (sshMatch) {
+    const [, host, organization, project, repository] = sshMatch;
     return {
-      organization: httpsMatch[1],
-      project: decodeURIComponent(httpsMatch[2]),
-      repository: httpsMatch[3],
+      collectionUrl: host.startsWith("vs-ssh")
+        ? `https://${organization}.visualstudio.com`
+        : getCloudCollectionUrl(organization),
+      organization,
+      project: decodeURIComponent(project),
+      repository,
     };
   }
 
-  // SSH format
-  const sshMatch = remoteUrl.match(
-    /[^@]+@vs-ssh\.visualstudio\.com:v3\/([^\/]+)\/([^\/]+)\/([^\/]+)/
+  // HTTPS format, and SSH on Azure DevOps Server, which keep the _git segment
+  const gitMatch = url.match(
+    /^(https?|ssh):\/\/(?:[^@\/]+@)?([^\/:]+)(?::\d+)?((?:\/[^\/]+)+)\/_git\/([^\/]+)$/
   );
-  if (sshMatch) {
-    return {
-      organization: sshMatch[1],
-      project: decodeURIComponent(sshMatch[2]),
-      repository: sshMatch[3],
-    };
+  if (gitMatch) {
+    const [, scheme, host, path, repository] = gitMatch;
+    const segments = path.split("/").slice(1);
+    const project = segments.pop()!;
+    const validCollection =
+      host === "dev.azure.com"
+        ? segments.length === 1
+        : host.endsWith(".visualstudio.com")
+          ? segments.length === 0 ||
+            (segments.length === 1 && /^DefaultCollection$/i.test(segments[0]))
+          : segments.length > 0;
+
+    if (validCollection) {
+      // The collection is served over HTTPS even when cloning over SSH
+      const origin = `${scheme === "http" ? "http" : "https"}://${host}`;
+      const collectionUrl = normalizeCollectionUrl(
+        [origin, ...segments].join("/")
+      );
+      return {
+        collectionUrl,
+        organization: getCollectionName(collectionUrl),
+        project: decodeURIComponent(project),
+        repository,
+      };
+    }
   }
 
   throw new Error(
-    `Unable to parse Azure DevOps remote URL: ${remoteUrl}. Expected format: https://dev.azure.com/org/project/_git/repo or org@vs-ssh.visualstudio.com:v3/org/project/repo`
+    `Unable to parse Azure DevOps remote URL: ${remoteUrl}. Expected format: https://dev.azure.com/org/project/_git/repo, https://server/collection/project/_git/repo or git@ssh.dev.azure.com:v3/org/project/repo`
   );
 }
 
@@ -86,3 +122,116 @@ export async function isGitRepository(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Get the full SHA of a commit-ish (defaults to HEAD)
+ */
+export async function getCommitSha(ref: string = "HEAD"): Promise<string> {
+  try {
+    const result = await $`git rev-parse ${ref}`;
+    return result.stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to resolve ${ref}: ${error}`);
+  }
+}
+
+/**
+ * Get the author name of a commit (defaults to HEAD)
+ */
+export async function getCommitAuthor(ref: string = "HEAD"): Promise<string> {
+  try {
+    const result = await $`git log -1 --format=%an ${ref}`;
+    return result.stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to get author of ${ref}: ${error}`);
+  }
+}
+
+/**
+ * Check that a ref resolves to an object in the local repository
+ */
+export async function refExists(ref: string): Promise<boolean> {
+  try {
+    await $`git rev-parse --verify --quiet ${ref}`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a branch name only uses letters, digits, `_`, `.`, `/` and `-`,
+ * and can't be read as an option
+ */
+export function isSafeBranchName(name: string): boolean {
+  return /^[\w./-]+$/.test(name) && !name.startsWith("-");
+}
+
+/**
+ * Get the merge base between a branch and HEAD
+ */
+export async function getMergeBase(branch: string): Promise<string> {
+  try {
+    const result = await $`git merge-base ${branch} HEAD`;
+    return result.stdout.trim();
+  } catch (error) {
+    throw new Error(`Failed to get merge base with ${branch}: ${error}`);
+  }
+}
+
+/**
+ * Read a file as it is in a commit
+ * Returns null when the commit or the file doesn't exist locally
+ */
+export async function getFileAtRevision(
+  ref: string,
+  filePath: string
+): Promise<string | null> {
+  try {
+    const result = await $`git show ${`${ref}:${filePath}`}`;
+    return result.stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a commit exists locally and is an ancestor of HEAD
+ * Returns false after a force-push or rebase removed it from the history
+ */
+export async function isAncestorOfHead(sha: string): Promise<boolean> {
+  try {
+    await $`git merge-base --is-ancestor ${sha} HEAD`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Which changes to review
+ */
+export type DiffMode =
+  | { type: "branch"; compareBranch: string }
+  | { type: "staged" }
+  | { type: "workingTree" }
+  | { type: "range"; range: string }
+  | { type: "commit"; sha: string };
+
+/**
+ * Arguments for `git diff` that produce the changes of a review mode
+ */
+export function getDiffArgs(mode: DiffMode): string[] {
+  switch (mode.type) {
+    case "branch":
+      return [`${mode.compareBranch}...HEAD`];
+    case "staged":
+      return ["--cached"];
+    case "workingTree":
+      return ["HEAD"];
+    case "range":
+      return [mode.range];
+    case "commit":
+      return [`${mode.sha}^!`];
+  }
+}
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { makeHttpRequest } from "./ado-http.js";
+import { parseUnifiedDiff } from "./diff.js";
+import { ReviewFinding, renderFindingMarkdown } from "./findings.js";
+import {
+  PullRequestThread,
+  buildInlineSummary,
+  buildThreadContext,
+  findReviewThread,
+  getFindingFingerprint,
+  getFindingSnippet,
+  postInlineComments,
+} from "./inline-threads.js";
+import {
+  embedFindingMarker,
+  embedReviewMetadata,
+  parseFindingMarker,
+} from "./review-metadata.js";
+
+vi.mock("./ado-http.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ado-http.js")>()),
+  makeHttpRequest: vi.fn(),
+}));
+
+const config = {
+  token: "token",
+  org: "org",
+  project: "project",
+  repo: "repo",
+  prId: "42",
+};
+
+const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,4 @@
+ const a = 1;
+-const b = 2;
++const b = value.name;
++const d =   value.id;
+ const c = 3;
+`;
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "high",
+  category: "bug",
+  file: "src/app.ts",
+  startLine: 2,
+  title: "Null dereference",
+  body: "value can be null",
+};
+
+function postedThread(
+  status: string,
+  posted: ReviewFinding = finding
+): PullRequestThread {
+  const diffFiles = parseUnifiedDiff(diff);
+  return {
+    id: 9,
+    status,
+    comments: [
+      {
+        id: 1,
+        content: embedFindingMarker(renderFindingMarkdown(posted), {
+          snippet: getFindingSnippet(posted, diffFiles),
+          fingerprint: getFindingFingerprint(posted, diffFiles)!,
+        }),
+      },
+    ],
+  };
+}
+
+describe("inline threads", () => {
+  describe("buildThreadContext", () => {
+    it("should anchor a line range on the new file", () => {
+      expect(
+        buildThreadContext({ ...finding, endLine: 3 }, parseUnifiedDiff(diff))
+      ).toEqual({
+        filePath: "/src/app.ts",
+        rightFileStart: { line: 2, offset: 1 },
+        rightFileEnd: { line: 3, offset: 22 },
+      });
+    });
+
+    it("should anchor removed lines on the old file", () => {
+      expect(
+        buildThreadContext({ ...finding, side: "left" }, parseUnifiedDiff(diff))
+      ).toEqual({
+        filePath: "/src/app.ts",
+        leftFileStart: { line: 2, offset: 1 },
+        leftFileEnd: { line: 2, offset: 13 },
+      });
+    });
+
+    it("should not anchor lines or files outside the diff", () => {
+      const diffFiles = parseUnifiedDiff(diff);
+
+      expect(
+        buildThreadContext({ ...finding, startLine: 40 }, diffFiles)
+      ).toBeNull();
+      expect(
+        buildThreadContext({ ...finding, file: "src/other.ts" }, diffFiles)
+      ).toBeNull();
+      expect(
+        buildThreadContext({ ...finding, startLine: undefined }, diffFiles)
+      ).toBeNull();
+    });
+  });
+
+  describe("getFindingFingerprint", () => {
+    it("should ignore the title, line numbers and whitespace", () => {
+      const moved = parseUnifiedDiff(`diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,2 +10,2 @@
+-const b = 2;
++  const  b = value.name;
+ const c = 3;
+`);
+
+      expect(
+        getFindingFingerprint(
+          { ...finding, startLine: 10, title: "Possible null" },
+          moved
+        )
+      ).toBe(getFindingFingerprint(finding, parseUnifiedDiff(diff)));
+    });
+
+    it("should differ by file, category and code", () => {
+      const diffFiles = parseUnifiedDiff(diff);
+      const fingerprint = getFindingFingerprint(finding, diffFiles);
+
+      expect(
+        getFindingFingerprint({ ...finding, category: "security" }, diffFiles)
+      ).not.toBe(fingerprint);
+      expect(
+        getFindingFingerprint({ ...finding, startLine: 3 }, diffFiles)
+      ).not.toBe(fingerprint);
+      expect(
+        getFindingFingerprint({ ...finding, startLine: 40 }, diffFiles)
+      ).toBeNull();
+    });
+  });
+
+  describe("postInlineComments", () => {
+    beforeEach(() => {
+      vi.mocked(makeHttpRequest).mockReset();
+      vi.mocked(makeHttpRequest).mockResolvedValue({
+        statusCode: 200,
+        statusMessage: "OK",
+        headers: {},
+        body: '{"id": 12}',
+      });
+    });
+
+    it("should create threads with the fingerprint in the marker", async () => {
+      const result = await postInlineComments(
+        [finding],
+        parseUnifiedDiff(diff),
+        config
+      );
+
+      expect(result.posted).toEqual([
+        { finding, threadId: 12, action: "created" },
+      ]);
+      const [, request] = vi.mocked(makeHttpRequest).mock.calls[0];
+      const content = JSON.parse(request!.body!).comments[0].content;
+      expect(parseFindingMarker(content)?.fingerprint).toBe(
+        getFindingFingerprint(finding, parseUnifiedDiff(diff))
+      );
+    });
+
+    it("should move findings that can't be anchored or posted to the summary", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValueOnce({
+        statusCode: 400,
+        statusMessage: "Bad Request",
+        headers: {},
+        body: "{}",
+      });
+      const outside = { ...finding, id: "F2", startLine: 40 };
+
+      const result = await postInlineComments(
+        [finding, outside],
+        parseUnifiedDiff(diff),
+        config
+      );
+
+      expect(result.posted).toEqual([]);
+      expect(result.unanchored).toEqual([finding, outside]);
+      expect(makeHttpRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip findings already posted unchanged", async () => {
+      const result = await postInlineComments(
+        [finding],
+        parseUnifiedDiff(diff),
+        config,
+        [postedThread("active")]
+      );
+
+      expect(result.posted).toEqual([
+        { finding, threadId: 9, action: "unchanged" },
+      ]);
+      expect(makeHttpRequest).not.toHaveBeenCalled();
+    });
+
+    it("should update threads whose text changed", async () => {
+      const reworded = { ...finding, title: "Possible null dereference" };
+
+      const result = await postInlineComments(
+        [reworded],
+        parseUnifiedDiff(diff),
+        config,
+        [postedThread("active")]
+      );
+
+      expect(result.posted[0].action).toBe("updated");
+      const [url, request] = vi.mocked(makeHttpRequest).mock.calls[0];
+      expect(url).toContain("/threads/9/comments/1?");
+      expect(request?.method).toBe("PATCH");
+    });
+
+    it("should never repost findings marked won't fix or by design", async () => {
+      const result = await postInlineComments(
+        [finding],
+        parseUnifiedDiff(diff),
+        config,
+        [postedThread("wontFix")]
+      );
+
+      expect(result.posted).toEqual([]);
+      expect(result.waived).toEqual([finding]);
+      expect(makeHttpRequest).not.toHaveBeenCalled();
+    });
+
+    it("should post again when the earlier thread was resolved", async () => {
+      const result = await postInlineComments(
+        [finding],
+        parseUnifiedDiff(diff),
+        config,
+        [postedThread("fixed")]
+      );
+
+      expect(result.posted[0]).toMatchObject({
+        threadId: 12,
+        action: "created",
+      });
+    });
+  });
+
+  describe("buildInlineSummary", () => {
+    it("should link the threads and keep unanchored findings in full", () => {
+      const other = { ...finding, id: "F2", title: "Leaked secret" };
+
+      const summary = buildInlineSummary(
+        "Looks good overall",
+        {
+          posted: [{ finding, threadId: 12, action: "created" }],
+          unanchored: [other],
+          waived: [],
+        },
+        config
+      );
+
+      expect(summary).toContain("## Summary\n\nLooks good overall");
+      expect(summary).toContain(
+        "- [src/app.ts:2](https://dev.azure.com/org/project/_git/repo/pullrequest/42?discussionId=12) **high**: Null dereference"
+      );
+      expect(summary).toContain("## Other Findings");
+      expect(summary).toContain("Leaked secret");
+    });
+  });
+
+  describe("findReviewThread", () => {
+    const reviewerId = "reviewer-id";
+    const comment = (
+      id: number,
+      content: string,
+      authorId = reviewerId
+    ): PullRequestThread => ({
+      id,
+      comments: [{ id: 1, content, author: { id: authorId } }],
+    });
+    const metadata = { headSha: "abc", mergeBase: "def", iteration: 1 };
+
+    it("should match the review by its metadata, not a quoted heading", () => {
+      const quoted = comment(1, "Why did # Claude Code Review flag this?");
+      const review = comment(2, embedReviewMetadata("# Review", metadata));
+
+      expect(findReviewThread([quoted, review], reviewerId)).toBe(review);
+      expect(findReviewThread([quoted], reviewerId)).toBeNull();
+    });
+
+    it("should pick the most recent review", () => {
+      const first = comment(1, embedReviewMetadata("First", metadata));
+      const second = comment(2, embedReviewMetadata("Second", metadata));
+
+      expect(findReviewThread([first, second], reviewerId)).toBe(second);
+    });
+
+    it("should fall back to summaries posted without metadata", () => {
+      const legacy = comment(1, "# Claude Code Review\n\nLooks good");
+      const review = comment(2, embedReviewMetadata("# Review", metadata));
+
+      expect(findReviewThread([legacy], reviewerId)).toBe(legacy);
+      expect(findReviewThread([review, legacy], reviewerId)).toBe(review);
+    });
+
+    it("should ignore reviews written by someone else", () => {
+      const review = comment(1, embedReviewMetadata("# Review", metadata));
+      const forged = comment(
+        2,
+        embedReviewMetadata("# Review", { ...metadata, headSha: "head" }),
+        "author-id"
+      );
+
+      expect(findReviewThread([review, forged], reviewerId)).toBe(review);
+      expect(
+        findReviewThread(
+          [comment(3, "# Claude Code Review", "author-id")],
+          reviewerId
+        )
+      ).toBeNull();
+    });
+  });
+});
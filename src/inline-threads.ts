@@ -0,0 +1,489 @@
+import { createHash } from "crypto";
+import { adoListAll, adoRequest } from "./ado-client.js";
+import {
+  AzureConfig,
+  getPullRequestApiUrl,
+  getThreadWebUrl,
+} from "./ado-http.js";
+import {
+  DiffFile,
+  findDiffFile,
+  getRangeLines,
+  isRangeInDiff,
+} from "./diff.js";
+import {
+  CATEGORIES,
+  Category,
+  ReviewFinding,
+  SEVERITIES,
+  Severity,
+  formatFindingLocation,
+  renderFindingMarkdown,
+  renderFindingsMarkdown,
+} from "./findings.js";
+import {
+  embedFindingMarker,
+  parseFindingMarker,
+  parseReviewMetadata,
+} from "./review-metadata.js";
+
+/**
+ * Thread statuses that mean a reviewer accepted the finding as is
+ */
+export const WAIVED_THREAD_STATUSES = ["wontFix", "byDesign"];
+
+/**
+ * Heading of the review summary; summaries posted before they carried
+ * metadata are recognized by it
+ */
+export const REVIEW_HEADING = "# Claude Code Review";
+
+interface FilePosition {
+  line: number;
+  offset: number;
+}
+
+export interface ThreadContext {
+  filePath: string;
+  leftFileStart?: FilePosition;
+  leftFileEnd?: FilePosition;
+  rightFileStart?: FilePosition;
+  rightFileEnd?: FilePosition;
+}
+
+export interface PullRequestThread {
+  id: number;
+  status?: string;
+  threadContext?: ThreadContext | null;
+  comments?: {
+    id: number;
+    content?: string;
+    commentType?: string;
+    author?: { id?: string };
+  }[];
+}
+
+export interface PostedInlineThread {
+  finding: ReviewFinding;
+  threadId: number;
+  action: "created" | "updated" | "unchanged";
+}
+
+export interface InlinePostResult {
+  posted: PostedInlineThread[];
+  unanchored: ReviewFinding[];
+  // Findings already posted and marked won't fix or by design
+  waived: ReviewFinding[];
+}
+
+/**
+ * Build an Azure DevOps thread context for a finding
+ * Returns null when the finding has no line range in the diff and can't be anchored
+ */
+export function buildThreadContext(
+  finding: ReviewFinding,
+  diffFiles: DiffFile[]
+): ThreadContext | null {
+  if (!finding.file || finding.startLine === undefined) {
+    return null;
+  }
+
+  const file = findDiffFile(diffFiles, finding.file);
+  if (!file) {
+    return null;
+  }
+
+  const side = finding.side || "right";
+  const startLine = finding.startLine;
+  const endLine = Math.max(finding.endLine || startLine, startLine);
+
+  if (!isRangeInDiff(file, side, startLine, endLine)) {
+    return null;
+  }
+
+  const filePath = side === "right" ? file.newPath : file.oldPath;
+  if (!filePath) {
+    return null;
+  }
+
+  const endOffset = getLineLength(file, side, endLine) + 1;
+  const start: FilePosition = { line: startLine, offset: 1 };
+  const end: FilePosition = { line: endLine, offset: endOffset };
+
+  return side === "right"
+    ? { filePath: `/${filePath}`, rightFileStart: start, rightFileEnd: end }
+    : { filePath: `/${filePath}`, leftFileStart: start, leftFileEnd: end };
+}
+
+function getLineLength(
+  file: DiffFile,
+  side: "left" | "right",
+  lineNumber: number
+): number {
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      const number = side === "right" ? line.newLine : line.oldLine;
+      if (number === lineNumber) {
+        return line.content.length;
+      }
+    }
+  }
+  return 0;
+}
+
+function hash(text: string, length: number): string {
+  return createHash("sha1").update(text).digest("hex").slice(0, length);
+}
+
+/**
+ * Hash the text of a line range in the diff, so a later run can tell whether
+ * the flagged lines changed; returns null when a line isn't in the diff
+ */
+export function getRangeSnippet(
+  file: DiffFile,
+  side: "left" | "right",
+  startLine: number,
+  endLine: number = startLine
+): string | null {
+  const lines = getRangeLines(file, side, startLine, endLine);
+  return lines ? hash(lines.join("\n"), 12) : null;
+}
+
+/**
+ * Stable id of a finding from its file, category and flagged code
+ * Whitespace is normalized so reformatting or moving the code keeps the id;
+ * returns null when the flagged lines aren't in the diff
+ */
+export function getFindingFingerprint(
+  finding: ReviewFinding,
+  diffFiles: DiffFile[]
+): string | null {
+  const file = finding.file ? findDiffFile(diffFiles, finding.file) : null;
+  if (!file || finding.startLine === undefined) {
+    return null;
+  }
+
+  const endLine = Math.max(
+    finding.endLine || finding.startLine,
+    finding.startLine
+  );
+  const lines = getRangeLines(
+    file,
+    finding.side || "right",
+    finding.startLine,
+    endLine
+  );
+  if (!lines) {
+    return null;
+  }
+
+  const code = lines
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .filter(Boolean)
+    .join("\n");
+  return hash(`${finding.file}\n${finding.category}\n${code}`, 16);
+}
+
+/**
+ * Hash of the lines a finding flags in the diff, or an empty string when
+ * they aren't in it
+ */
+export function getFindingSnippet(
+  finding: ReviewFinding,
+  diffFiles: DiffFile[]
+): string {
+  const file = finding.file ? findDiffFile(diffFiles, finding.file) : null;
+  if (!file || finding.startLine === undefined) {
+    return "";
+  }
+
+  const endLine = Math.max(
+    finding.endLine || finding.startLine,
+    finding.startLine
+  );
+  return (
+    getRangeSnippet(
+      file,
+      finding.side || "right",
+      finding.startLine,
+      endLine
+    ) || ""
+  );
+}
+
+/**
+ * Create a pull request thread anchored to a file and line range
+ */
+export async function createInlineThread(
+  config: AzureConfig,
+  content: string,
+  threadContext: ThreadContext
+): Promise<PullRequestThread> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads?api-version=7.1`;
+
+  const payload = {
+    comments: [
+      {
+        parentCommentId: 0,
+        content: content,
+        commentType: 1,
+      },
+    ],
+    status: 1,
+    threadContext,
+  };
+
+  return adoRequest<PullRequestThread>(config, apiUrl, {
+    action: "create inline thread",
+    method: "POST",
+    body: payload,
+  });
+}
+
+/**
+ * Replace the content of a thread comment
+ */
+export async function updateThreadComment(
+  config: AzureConfig,
+  threadId: number,
+  commentId: number,
+  content: string
+): Promise<void> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads/${threadId}/comments/${commentId}?api-version=7.1`;
+
+  await adoRequest(config, apiUrl, {
+    action: `update thread ${threadId}`,
+    method: "PATCH",
+    body: { content },
+  });
+}
+
+/**
+ * Map the fingerprints of findings posted by earlier runs to their threads
+ * When a finding was posted more than once, the most recent thread wins
+ */
+export function indexThreadsByFingerprint(
+  threads: PullRequestThread[]
+): Map<string, PullRequestThread> {
+  const index = new Map<string, PullRequestThread>();
+
+  for (const thread of threads) {
+    const marker = parseFindingMarker(thread.comments?.[0]?.content || "");
+    if (marker?.fingerprint) {
+      index.set(marker.fingerprint, thread);
+    }
+  }
+  return index;
+}
+
+/**
+ * Find the thread whose first comment is the review summary of an earlier
+ * run, recognized by its hidden metadata, or by its heading when a version
+ * without metadata posted it; the most recent one wins
+ * Only summaries written by `authorId`, the reviewing identity, count, so a
+ * copied marker can't stand in for the last review
+ */
+export function findReviewThread(
+  threads: PullRequestThread[],
+  authorId: string
+): PullRequestThread | null {
+  const summaries = threads
+    .map((thread) => ({ thread, comment: thread.comments?.[0] }))
+    .filter(({ comment }) => comment?.author?.id === authorId);
+
+  const withMetadata = summaries.filter(({ comment }) =>
+    parseReviewMetadata(comment?.content || "")
+  );
+  const withHeading = summaries.filter(({ comment }) =>
+    comment?.content?.startsWith(REVIEW_HEADING)
+  );
+  return (withMetadata.at(-1) || withHeading.at(-1))?.thread || null;
+}
+
+/**
+ * Post every anchorable finding as its own thread
+ * Findings already posted by an earlier run, matched by fingerprint, update
+ * their open thread instead; ones marked won't fix or by design are skipped.
+ * Findings that can't be anchored, or fail to post, are returned for the summary
+ */
+export async function postInlineComments(
+  findings: ReviewFinding[],
+  diffFiles: DiffFile[],
+  config: AzureConfig,
+  existingThreads: PullRequestThread[] = []
+): Promise<InlinePostResult> {
+  const result: InlinePostResult = { posted: [], unanchored: [], waived: [] };
+  const threadsByFingerprint = indexThreadsByFingerprint(existingThreads);
+
+  for (const finding of findings) {
+    const threadContext = buildThreadContext(finding, diffFiles);
+    if (!threadContext) {
+      result.unanchored.push(finding);
+      continue;
+    }
+
+    const fingerprint = getFindingFingerprint(finding, diffFiles) || undefined;
+    const existing = fingerprint && threadsByFingerprint.get(fingerprint);
+
+    if (existing && WAIVED_THREAD_STATUSES.includes(existing.status || "")) {
+      result.waived.push(finding);
+      continue;
+    }
+
+    try {
+      const content = embedFindingMarker(renderFindingMarkdown(finding, true), {
+        snippet: getFindingSnippet(finding, diffFiles),
+        fingerprint,
+      });
+
+      const comment = existing ? existing.comments?.[0] : undefined;
+      if (existing && existing.status === "active" && comment) {
+        if (comment.content === content) {
+          result.posted.push({
+            finding,
+            threadId: existing.id,
+            action: "unchanged",
+          });
+          continue;
+        }
+
+        await updateThreadComment(config, existing.id, comment.id, content);
+        result.posted.push({
+          finding,
+          threadId: existing.id,
+          action: "updated",
+        });
+        continue;
+      }
+
+      const thread = await createInlineThread(config, content, threadContext);
+      result.posted.push({ finding, threadId: thread.id, action: "created" });
+    } catch {
+      result.unanchored.push(finding);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the summary comment linking to the inline threads
+ * Unanchored findings are included in full so nothing is lost
+ */
+export function buildInlineSummary(
+  summary: string,
+  result: InlinePostResult,
+  config: AzureConfig
+): string {
+  const sections = [`## Summary\n\n${summary.trim()}`];
+
+  if (result.posted.length > 0) {
+    const links = result.posted.map(({ finding, threadId }) => {
+      const location = formatFindingLocation(finding);
+      const url = getThreadWebUrl(config, threadId);
+      return `- [${location}](${url}) **${finding.severity}**: ${finding.title}`;
+    });
+    sections.push(`## Inline Comments\n\n${links.join("\n")}`);
+  }
+
+  if (result.unanchored.length > 0) {
+    sections.push(
+      `## Other Findings\n\n${renderFindingsMarkdown(result.unanchored)}`
+    );
+  }
+
+  if (result.waived.length > 0) {
+    sections.push(
+      `_${result.waived.length} findings marked won't fix or by design in earlier reviews were not posted again._`
+    );
+  }
+
+  if (result.posted.length === 0 && result.unanchored.length === 0) {
+    sections.push("## Findings\n\nNo issues found.");
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * List every discussion thread of the pull request, across all pages
+ */
+export async function listPullRequestThreads(
+  config: AzureConfig
+): Promise<PullRequestThread[]> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads?api-version=7.1`;
+
+  return adoListAll<PullRequestThread>(config, apiUrl, {
+    action: "list PR threads",
+  });
+}
+
+/**
+ * Read the finding back from an inline thread posted by this tool
+ * Returns null for threads that don't look like a posted finding
+ */
+export function parseThreadFinding(
+  thread: PullRequestThread
+): ReviewFinding | null {
+  const content = thread.comments?.[0]?.content || "";
+  const context = thread.threadContext;
+
+  const title = content.match(/^\*\*(.+?)\*\*/)?.[1];
+  const meta = content.match(/\*\*(\w+)\*\* · (\w+)/);
+  if (!title || !meta || !context?.filePath) {
+    return null;
+  }
+
+  const start = context.rightFileStart || context.leftFileStart;
+  const end = context.rightFileEnd || context.leftFileEnd;
+  const severity = meta[1] as Severity;
+  const category = meta[2] as Category;
+
+  return {
+    id: `thread-${thread.id}`,
+    severity: SEVERITIES.includes(severity) ? severity : "info",
+    category: CATEGORIES.includes(category) ? category : "other",
+    file: context.filePath.replace(/^\//, ""),
+    startLine: start?.line,
+    endLine: end?.line,
+    side: context.leftFileStart ? "left" : "right",
+    title,
+    body: "",
+  };
+}
+
+/**
+ * Post a reply to a comment in a thread
+ */
+export async function replyToThread(
+  config: AzureConfig,
+  threadId: number,
+  parentCommentId: number,
+  content: string
+): Promise<void> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads/${threadId}/comments?api-version=7.1`;
+
+  await adoRequest(config, apiUrl, {
+    action: `reply to thread ${threadId}`,
+    method: "POST",
+    body: { parentCommentId, content, commentType: 1 },
+  });
+}
+
+/**
+ * Reply to a thread explaining why it was resolved, then mark it as fixed
+ */
+export async function resolveThread(
+  config: AzureConfig,
+  threadId: number,
+  reply: string
+): Promise<void> {
+  await replyToThread(config, threadId, 1, reply);
+
+  const apiUrl = `${getPullRequestApiUrl(config)}/threads/${threadId}?api-version=7.1`;
+  await adoRequest(config, apiUrl, {
+    action: `resolve thread ${threadId}`,
+    method: "PATCH",
+    body: { status: "fixed" },
+  });
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  LedgerRecord,
+  aggregateLedger,
+  appendLedgerRecord,
+  formatStatsCsv,
+  formatStatsTable,
+  readLedger,
+} from "./ledger.js";
+
+const record: LedgerRecord = {
+  timestamp: "2026-03-02T10:00:00.000Z",
+  repo: "web",
+  branch: "feature/login",
+  prId: "42",
+  author: "Ana",
+  model: "sonnet",
+  backend: "cli",
+  diffTokens: 1200,
+  durationMs: 30000,
+  costUsd: 0.25,
+  usage: { inputTokens: 1000, cacheReadInputTokens: 500, outputTokens: 200 },
+  findings: { critical: 0, high: 1, medium: 2, low: 0, info: 0 },
+};
+
+describe("ledger", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-review-ledger-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("appendLedgerRecord", () => {
+    it("should append records that can be read back", () => {
+      const file = path.join(tmpDir, "nested", "usage.jsonl");
+
+      appendLedgerRecord(file, record);
+      appendLedgerRecord(file, { ...record, repo: "api" });
+
+      expect(readLedger(file).map((r) => r.repo)).toEqual(["web", "api"]);
+    });
+
+    it("should skip lines that can't be parsed", () => {
+      const file = path.join(tmpDir, "usage.jsonl");
+      fs.writeFileSync(file, `${JSON.stringify(record)}\n{"timestamp": "2026`);
+
+      expect(readLedger(file)).toHaveLength(1);
+    });
+
+    it("should return no records for a missing ledger", () => {
+      expect(readLedger(path.join(tmpDir, "missing.jsonl"))).toEqual([]);
+    });
+  });
+
+  describe("aggregateLedger", () => {
+    const records = [
+      record,
+      { ...record, timestamp: "2026-03-03T09:00:00.000Z", costUsd: 0.5 },
+      { ...record, timestamp: "2026-03-03T11:00:00.000Z", repo: "api" },
+    ];
+
+    it("should sum reviews, tokens, cost and findings per group", () => {
+      const rows = aggregateLedger(records, "repo");
+
+      expect(rows).toEqual([
+        {
+          key: "api",
+          reviews: 1,
+          inputTokens: 1500,
+          outputTokens: 200,
+          costUsd: 0.25,
+          findings: 3,
+        },
+        {
+          key: "web",
+          reviews: 2,
+          inputTokens: 3000,
+          outputTokens: 400,
+          costUsd: 0.75,
+          findings: 6,
+        },
+      ]);
+    });
+
+    it("should group by day and skip records before since", () => {
+      const rows = aggregateLedger(records, "day", "2026-03-03");
+
+      expect(rows.map((row) => [row.key, row.reviews])).toEqual([
+        ["2026-03-03", 2],
+      ]);
+    });
+  });
+
+  describe("formatStatsCsv", () => {
+    it("should write a header and quote keys with commas", () => {
+      const rows = aggregateLedger(
+        [{ ...record, author: "Ana, QA" }],
+        "author"
+      );
+
+      expect(formatStatsCsv(rows, "author")).toBe(
+        'author,reviews,inputTokens,outputTokens,costUsd,findings\n"Ana, QA",1,1500,200,0.2500,3'
+      );
+    });
+  });
+
+  describe("formatStatsTable", () => {
+    it("should add a total row", () => {
+      const table = formatStatsTable(
+        aggregateLedger([record], "model"),
+        "model"
+      );
+
+      expect(table.split("\n")).toHaveLength(4);
+      expect(table).toMatch(/^Total\s+1\s+1,500\s+200\s+\$0\.2500\s+3$/m);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SEVERITIES, Severity } from "./findings.js";
+import type { BackendUsage } from "./review-backend.js";
+
+export const DEFAULT_LEDGER_FILE = path.join(
+  os.homedir(),
+  ".claude-review",
+  "usage.jsonl"
+);
+
+export const STATS_GROUP_BY = ["day", "repo", "model", "author"] as const;
+export type StatsGroupBy = (typeof STATS_GROUP_BY)[number];
+
+/**
+ * One review run in the usage ledger
+ */
+export interface LedgerRecord {
+  timestamp: string;
+  repo: string;
+  branch?: string;
+  prId?: string;
+  author?: string;
+  model: string;
+  backend: string;
+  diffTokens: number;
+  durationMs: number;
+  costUsd: number;
+  usage: BackendUsage;
+  findings: Record<Severity, number>;
+}
+
+export interface StatsRow {
+  key: string;
+  reviews: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  findings: number;
+}
+
+/**
+ * Append a record to the JSONL ledger, creating the file if needed
+ */
+export function appendLedgerRecord(file: string, record: LedgerRecord): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(record)}\n`);
+  } catch (error) {
+    throw new Error(`Failed to write usage ledger ${file}: ${error}`);
+  }
+}
+
+/**
+ * Read every record from the ledger, skipping lines that can't be parsed
+ */
+export function readLedger(file: string): LedgerRecord[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const records: LedgerRecord[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line);
+      if (typeof record.timestamp === "string" && record.usage) {
+        records.push(record);
+      }
+    } catch {
+      // A partially written line shouldn't break the whole ledger
+    }
+  }
+  return records;
+}
+
+function getGroupKey(record: LedgerRecord, groupBy: StatsGroupBy): string {
+  switch (groupBy) {
+    case "day":
+      return record.timestamp.slice(0, 10);
+    case "repo":
+      return record.repo;
+    case "model":
+      return record.model;
+    case "author":
+      return record.author || "unknown";
+  }
+}
+
+/**
+ * Sum reviews, tokens, cost and findings per day, repo, model or author
+ * Records before `since` (an ISO date) are left out
+ */
+export function aggregateLedger(
+  records: LedgerRecord[],
+  groupBy: StatsGroupBy,
+  since?: string
+): StatsRow[] {
+  const rows = new Map<string, StatsRow>();
+
+  for (const record of records) {
+    if (since && record.timestamp < since) {
+      continue;
+    }
+
+    const key = getGroupKey(record, groupBy);
+    const row = rows.get(key) || {
+      key,
+      reviews: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      findings: 0,
+    };
+
+    row.reviews++;
+    row.inputTokens +=
+      record.usage.inputTokens + record.usage.cacheReadInputTokens;
+    row.outputTokens += record.usage.outputTokens;
+    row.costUsd += record.costUsd;
+    row.findings += SEVERITIES.reduce(
+      (total, severity) => total + (record.findings?.[severity] || 0),
+      0
+    );
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+const STATS_COLUMNS = [
+  "reviews",
+  "inputTokens",
+  "outputTokens",
+  "costUsd",
+  "findings",
+] as const;
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format aggregated stats as CSV with a header row
+ */
+export function formatStatsCsv(
+  rows: StatsRow[],
+  groupBy: StatsGroupBy
+): string {
+  const lines = [[groupBy, ...STATS_COLUMNS].join(",")];
+
+  for (const row of rows) {
+    lines.push(
+      [
+        csvField(row.key),
+        row.reviews,
+        row.inputTokens,
+        row.outputTokens,
+        row.costUsd.toFixed(4),
+        row.findings,
+      ].join(",")
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format aggregated stats as an aligned text table with a total row
+ */
+export function formatStatsTable(
+  rows: StatsRow[],
+  groupBy: StatsGroupBy
+): string {
+  const total: StatsRow = {
+    key: "Total",
+    reviews: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    findings: 0,
+  };
+  for (const row of rows) {
+    total.reviews += row.reviews;
+    total.inputTokens += row.inputTokens;
+    total.outputTokens += row.outputTokens;
+    total.costUsd += row.costUsd;
+    total.findings += row.findings;
+  }
+
+  const header = [groupBy, "Reviews", "Input", "Output", "Cost", "Findings"];
+  const cells = [...rows, total].map((row) => [
+    row.key,
+    String(row.reviews),
+    row.inputTokens.toLocaleString(),
+    row.outputTokens.toLocaleString(),
+    `$${row.costUsd.toFixed(4)}`,
+    String(row.findings),
+  ]);
+
+  const widths = header.map((title, index) =>
+    Math.max(title.length, ...cells.map((row) => row[index].length))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, index) =>
+        index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])
+      )
+      .join("  ");
+
+  return [
+    format(header),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...cells.map(format),
+  ].join("\n");
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  combineLensOutputs,
+  parseLensList,
+  renderLensReviewMarkdown,
+} from "./lenses.js";
+import type { ReviewFinding } from "./findings.js";
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "medium",
+  category: "security",
+  file: "src/api.ts",
+  startLine: 4,
+  title: "Unescaped input in query",
+  body: "The id is interpolated into SQL.",
+};
+
+describe("lenses", () => {
+  describe("parseLensList", () => {
+    it("should parse and dedupe lens names", () => {
+      expect(parseLensList("security, tests,security")).toEqual([
+        "security",
+        "tests",
+      ]);
+    });
+
+    it("should reject unknown lenses", () => {
+      expect(() => parseLensList("security,style")).toThrow(
+        "Unknown lens style"
+      );
+    });
+  });
+
+  describe("combineLensOutputs", () => {
+    it("should tag findings with their lens and collapse duplicates", () => {
+      const output = combineLensOutputs([
+        {
+          lens: "security",
+          output: { summary: "One injection", findings: [finding] },
+        },
+        {
+          lens: "performance",
+          output: {
+            summary: "Fine",
+            findings: [{ ...finding, severity: "low" }],
+          },
+        },
+      ]);
+
+      expect(output.lenses).toEqual(["security", "performance"]);
+      expect(output.summary).toBe(
+        "**Security:** One injection\n\n**Performance:** Fine"
+      );
+      expect(output.findings).toEqual([
+        { ...finding, id: "F1", lens: "security" },
+      ]);
+    });
+  });
+
+  describe("renderLensReviewMarkdown", () => {
+    it("should render one section per lens", () => {
+      const markdown = renderLensReviewMarkdown({
+        summary: "Summary",
+        findings: [{ ...finding, lens: "security" }],
+        lenses: ["security", "tests"],
+      });
+
+      expect(markdown).toContain("## Security\n\n### 🟡 Medium");
+      expect(markdown).toContain("## Tests\n\nNo issues found.");
+      expect(markdown).not.toContain("## Findings");
+    });
+
+    it("should use the severity layout without lenses", () => {
+      expect(
+        renderLensReviewMarkdown({ summary: "ok", findings: [] })
+      ).toContain("## Findings\n\nNo issues found.");
+    });
+  });
+});
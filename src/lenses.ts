@@ -0,0 +1,142 @@
+import { mergeFindings } from "./chunking.js";
+import {
+  ReviewOutput,
+  renderFindingsMarkdown,
+  renderReviewMarkdown,
+} from "./findings.js";
+
+export const LENS_NAMES = [
+  "security",
+  "performance",
+  "tests",
+  "api-design",
+] as const;
+
+export type LensName = (typeof LENS_NAMES)[number];
+
+export interface Lens {
+  title: string;
+  prompt: string;
+}
+
+/**
+ * Specialist review prompts, each run as its own pass over the diff
+ */
+export const LENSES: Record<LensName, Lens> = {
+  security: {
+    title: "Security",
+    prompt: `Please review this pull request for security issues only.
+
+Focus on:
+- Injection (SQL, command, path traversal, template) and unsafe deserialization
+- Authentication, authorization and session handling
+- Secrets, credentials or personal data in code, logs or error messages
+- Input validation and output encoding at trust boundaries
+- Insecure defaults, weak cryptography and risky dependencies
+
+Ignore style and general code quality. Only report issues that could realistically be exploited or leak data.`,
+  },
+  performance: {
+    title: "Performance",
+    prompt: `Please review this pull request for performance issues only.
+
+Focus on:
+- Algorithmic complexity and unnecessary work in hot paths or loops
+- N+1 queries, missing batching and chatty network or database calls
+- Blocking I/O, missing concurrency and unbounded memory growth
+- Caching opportunities and cache invalidation problems
+
+Ignore style and general code quality. Only report issues with a noticeable cost.`,
+  },
+  tests: {
+    title: "Tests",
+    prompt: `Please review the test coverage of this pull request.
+
+Focus on:
+- New or changed behavior without tests
+- Missing edge cases, error paths and boundary values
+- Tests that don't assert anything meaningful or depend on timing or order
+- Mocks that hide the behavior under test
+
+Point to the specific code that needs a test and describe the case to cover.`,
+  },
+  "api-design": {
+    title: "API Design",
+    prompt: `Please review the API design of this pull request.
+
+Focus on:
+- Breaking changes to public functions, types, endpoints or config
+- Naming and consistency with the existing API
+- Error handling and what callers can rely on
+- Parameters and return types that are hard to use correctly
+
+Only report issues a caller of the changed code would run into.`,
+  },
+};
+
+/**
+ * Parse a comma separated list of lens names, e.g. "security,tests"
+ */
+export function parseLensList(value: string): LensName[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const unknown = names.filter(
+    (name) => !LENS_NAMES.includes(name as LensName)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown lens ${unknown.join(", ")}. Available lenses: ${LENS_NAMES.join(", ")}`
+    );
+  }
+
+  return [...new Set(names)] as LensName[];
+}
+
+/**
+ * Merge the output of every lens into one review
+ * Findings are tagged with their lens and duplicates across lenses collapsed
+ */
+export function combineLensOutputs(
+  results: { lens: LensName; output: ReviewOutput }[]
+): ReviewOutput {
+  const summary = results
+    .map(({ lens, output }) => `**${LENSES[lens].title}:** ${output.summary}`)
+    .join("\n\n");
+
+  const findings = mergeFindings(
+    results.map(({ lens, output }) =>
+      output.findings.map((finding) => ({ ...finding, lens }))
+    )
+  );
+
+  return {
+    summary,
+    findings,
+    lenses: results.map(({ lens }) => lens),
+  };
+}
+
+/**
+ * Render a review with one findings section per lens
+ * Falls back to the severity grouped layout for reviews without lenses
+ */
+export function renderLensReviewMarkdown(output: ReviewOutput): string {
+  if (!output.lenses || output.lenses.length === 0) {
+    return renderReviewMarkdown(output);
+  }
+
+  const sections = output.lenses.map((lens) => {
+    const title = LENSES[lens as LensName]?.title || lens;
+    const findings = output.findings.filter((finding) => finding.lens === lens);
+    const body =
+      findings.length > 0
+        ? renderFindingsMarkdown(findings)
+        : "No issues found.";
+    return `## ${title}\n\n${body}`;
+  });
+
+  return `## Summary\n\n${output.summary}\n\n${sections.join("\n\n")}`;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { finding } from "./fixtures/findings.js";
+import {
+  detectPipelineEnvironment,
+  formatLoggingCommand,
+  formatPipelineFailure,
+  formatPipelineResults,
+} from "./pipelines.js";
+
+const env = {
+  SYSTEM_PULLREQUEST_PULLREQUESTID: "42",
+  SYSTEM_PULLREQUEST_TARGETBRANCH: "refs/heads/release/1.0",
+  SYSTEM_PULLREQUEST_SOURCEBRANCH: "refs/heads/feature/login",
+  SYSTEM_COLLECTIONURI: "https://dev.azure.com/contoso/",
+  SYSTEM_TEAMPROJECT: "Web App",
+  BUILD_REPOSITORY_NAME: "web",
+  BUILD_REPOSITORY_PROVIDER: "TfsGit",
+};
+
+describe("pipelines", () => {
+  describe("detectPipelineEnvironment", () => {
+    it("should read the PR from the pipeline variables", () => {
+      expect(detectPipelineEnvironment(env)).toEqual({
+        pullRequest: {
+          collectionUrl: "https://dev.azure.com/contoso",
+          org: "contoso",
+          project: "Web App",
+          repo: "web",
+          prId: "42",
+        },
+        missing: [],
+        targetBranch: "release/1.0",
+        sourceBranch: "feature/login",
+      });
+    });
+
+    it("should use the collection of Azure DevOps Server", () => {
+      expect(
+        detectPipelineEnvironment({
+          ...env,
+          SYSTEM_COLLECTIONURI: "https://tfs.contoso.local/tfs/Main/",
+        })?.pullRequest
+      ).toMatchObject({
+        collectionUrl: "https://tfs.contoso.local/tfs/Main",
+        org: "Main",
+      });
+    });
+
+    it("should ignore builds that aren't Azure Repos pull requests", () => {
+      const { SYSTEM_PULLREQUEST_PULLREQUESTID, ...ciBuild } = env;
+
+      expect(detectPipelineEnvironment(ciBuild)).toBeNull();
+      expect(
+        detectPipelineEnvironment({
+          ...env,
+          BUILD_REPOSITORY_PROVIDER: "GitHub",
+        })
+      ).toBeNull();
+    });
+
+    it("should report missing variables", () => {
+      const { SYSTEM_TEAMPROJECT, ...incomplete } = env;
+
+      const pipeline = detectPipelineEnvironment(incomplete);
+      expect(pipeline?.pullRequest).toBeNull();
+      expect(pipeline?.missing).toEqual(["SYSTEM_TEAMPROJECT"]);
+    });
+  });
+
+  describe("formatLoggingCommand", () => {
+    it("should escape properties and the message", () => {
+      expect(
+        formatLoggingCommand(
+          "task.logissue",
+          { type: "error", sourcepath: "a;b]", linenumber: undefined },
+          "100% broken\nnext line"
+        )
+      ).toBe(
+        "##vso[task.logissue type=error;sourcepath=a%3Bb%5D;]100%AZP25 broken%0Anext line"
+      );
+    });
+  });
+
+  describe("formatPipelineResults", () => {
+    it("should log errors at the threshold and warnings below it", () => {
+      const commands = formatPipelineResults(
+        [finding(), finding({ id: "F2", severity: "low", file: undefined })],
+        undefined
+      );
+
+      expect(commands).toEqual([
+        "##vso[task.logissue type=error;sourcepath=src/app.ts;linenumber=10;code=bug;][high] Null dereference",
+        "##vso[task.logissue type=warning;code=bug;][low] Null dereference",
+        "##vso[task.complete result=SucceededWithIssues;]2 findings",
+      ]);
+    });
+
+    it("should fail the task only with --fail-on", () => {
+      expect(formatPipelineResults([finding()], "high").at(-1)).toBe(
+        "##vso[task.complete result=Failed;]1 finding"
+      );
+      expect(formatPipelineResults([finding()], "critical").at(-1)).toBe(
+        "##vso[task.complete result=SucceededWithIssues;]1 finding"
+      );
+    });
+
+    it("should skip waived findings", () => {
+      expect(
+        formatPipelineResults([finding()], "high", [finding({ id: "W1" })])
+      ).toEqual(["##vso[task.complete result=Succeeded;]No findings"]);
+    });
+  });
+
+  describe("formatPipelineFailure", () => {
+    it("should log the error and fail the task", () => {
+      expect(formatPipelineFailure("Claude exited")).toEqual([
+        "##vso[task.logissue type=error;]Claude exited",
+        "##vso[task.complete result=Failed;]Claude exited",
+      ]);
+    });
+  });
+});
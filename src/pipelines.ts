@@ -0,0 +1,151 @@
+import { AzureConfig } from "./ado-http.js";
+import { isDuplicateFinding } from "./chunking.js";
+import { getCollectionName, parseCollectionUrl } from "./collection-url.js";
+import { ReviewFinding, Severity } from "./findings.js";
+import { DEFAULT_VERDICT_SEVERITY } from "./pr-status.js";
+import { getBlockingFindings } from "./quality-gate.js";
+
+export interface PipelineEnvironment {
+  // Null when a variable the PR config needs is missing
+  pullRequest: Pick<
+    AzureConfig,
+    "collectionUrl" | "org" | "project" | "repo" | "prId"
+  > | null;
+  missing: string[];
+  targetBranch: string;
+  sourceBranch?: string;
+}
+
+export type TaskResult = "Succeeded" | "SucceededWithIssues" | "Failed";
+
+function stripHeadsPrefix(ref: string): string {
+  return ref.replace(/^refs\/heads\//, "");
+}
+
+/**
+ * Detect an Azure Pipelines build of an Azure Repos pull request
+ * Returns null outside of PR builds; the job token comes from the credential
+ * chain, as SYSTEM_ACCESSTOKEN only reaches steps that map it
+ */
+export function detectPipelineEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): PipelineEnvironment | null {
+  const prId = env.SYSTEM_PULLREQUEST_PULLREQUESTID;
+  const provider = env.BUILD_REPOSITORY_PROVIDER;
+  if (!prId || (provider && provider !== "TfsGit")) {
+    return null;
+  }
+
+  const collectionUrl = parseCollectionUrl(env.SYSTEM_COLLECTIONURI || "");
+  const project = env.SYSTEM_TEAMPROJECT;
+  const repo = env.BUILD_REPOSITORY_NAME;
+
+  const missing = [
+    !collectionUrl && "SYSTEM_COLLECTIONURI",
+    !project && "SYSTEM_TEAMPROJECT",
+    !repo && "BUILD_REPOSITORY_NAME",
+  ].filter((name): name is string => Boolean(name));
+
+  return {
+    pullRequest:
+      collectionUrl && project && repo
+        ? {
+            collectionUrl,
+            org: getCollectionName(collectionUrl),
+            project,
+            repo,
+            prId,
+          }
+        : null,
+    missing,
+    targetBranch: stripHeadsPrefix(
+      env.SYSTEM_PULLREQUEST_TARGETBRANCH || "main"
+    ),
+    sourceBranch: env.SYSTEM_PULLREQUEST_SOURCEBRANCH
+      ? stripHeadsPrefix(env.SYSTEM_PULLREQUEST_SOURCEBRANCH)
+      : undefined,
+  };
+}
+
+function escapeData(value: string): string {
+  return value
+    .replace(/%/g, "%AZP25")
+    .replace(/\r/g, "%0D")
+    .replace(/\n/g, "%0A");
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/]/g, "%5D").replace(/;/g, "%3B");
+}
+
+/**
+ * Format an Azure Pipelines logging command, e.g.
+ * ##vso[task.logissue type=warning;sourcepath=src/app.ts;]message
+ */
+export function formatLoggingCommand(
+  command: string,
+  properties: Record<string, string | number | undefined>,
+  message: string = ""
+): string {
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))};`)
+    .join("");
+  return `##vso[${command}${props ? ` ${props}` : ""}]${escapeData(message)}`;
+}
+
+/**
+ * Log an issue for every finding that hasn't been waived, as an error at or
+ * above the fail-on (or verdict) threshold and a warning below it, then
+ * complete the task: Failed when --fail-on has blocking findings
+ */
+export function formatPipelineResults(
+  findings: ReviewFinding[],
+  failOn: Severity | undefined,
+  waived: ReviewFinding[] = []
+): string[] {
+  const open = findings.filter(
+    (finding) =>
+      !waived.some((waivedFinding) =>
+        isDuplicateFinding(waivedFinding, finding)
+      )
+  );
+  const errors = getBlockingFindings(open, failOn || DEFAULT_VERDICT_SEVERITY);
+
+  const commands = open.map((finding) =>
+    formatLoggingCommand(
+      "task.logissue",
+      {
+        type: errors.includes(finding) ? "error" : "warning",
+        sourcepath: finding.file,
+        linenumber: finding.file ? finding.startLine : undefined,
+        code: finding.category,
+      },
+      `[${finding.severity}] ${finding.title}`
+    )
+  );
+
+  const result: TaskResult =
+    failOn && errors.length > 0
+      ? "Failed"
+      : open.length > 0
+        ? "SucceededWithIssues"
+        : "Succeeded";
+  const summary =
+    open.length === 0
+      ? "No findings"
+      : `${open.length} ${open.length === 1 ? "finding" : "findings"}`;
+
+  commands.push(formatLoggingCommand("task.complete", { result }, summary));
+  return commands;
+}
+
+/**
+ * Report a review that failed to run as an error and fail the task
+ */
+export function formatPipelineFailure(message: string): string[] {
+  return [
+    formatLoggingCommand("task.logissue", { type: "error" }, message),
+    formatLoggingCommand("task.complete", { result: "Failed" }, message),
+  ];
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { makeHttpRequest } from "./ado-http.js";
+import { finding } from "./fixtures/findings.js";
+import { buildVerdictStatus, setPullRequestStatus } from "./pr-status.js";
+
+vi.mock("./ado-http.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ado-http.js")>()),
+  makeHttpRequest: vi.fn(),
+}));
+
+const config = {
+  token: "token",
+  org: "org",
+  project: "project",
+  repo: "repo",
+  prId: "42",
+};
+
+describe("PR status", () => {
+  describe("buildVerdictStatus", () => {
+    it("should succeed when no findings reach the threshold", () => {
+      expect(
+        buildVerdictStatus([finding({ severity: "medium" })], "high")
+      ).toEqual({
+        state: "succeeded",
+        description: "No findings at or above high",
+      });
+    });
+
+    it("should fail with the number of blocking findings", () => {
+      expect(
+        buildVerdictStatus(
+          [
+            finding({ id: "F1", severity: "critical" }),
+            finding({ id: "F2", file: "src/other.ts" }),
+          ],
+          "high"
+        )
+      ).toEqual({
+        state: "failed",
+        description: "2 findings at or above high",
+      });
+    });
+
+    it("should ignore waived findings", () => {
+      const posted = finding();
+
+      expect(buildVerdictStatus([posted], "high", [posted]).state).toBe(
+        "succeeded"
+      );
+    });
+  });
+
+  describe("setPullRequestStatus", () => {
+    beforeEach(() => {
+      vi.mocked(makeHttpRequest).mockReset();
+    });
+
+    it("should post the status with the verdict context", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValue({
+        statusCode: 200,
+        statusMessage: "OK",
+        headers: {},
+        body: "{}",
+      });
+
+      await setPullRequestStatus(config, {
+        state: "pending",
+        description: "Review in progress",
+      });
+
+      const [url, request] = vi.mocked(makeHttpRequest).mock.calls[0];
+      expect(url).toBe(
+        "https://dev.azure.com/org/project/_apis/git/repositories/repo/pullRequests/42/statuses?api-version=7.1"
+      );
+      expect(JSON.parse(request!.body!)).toEqual({
+        state: "pending",
+        description: "Review in progress",
+        context: { genre: "claude-review", name: "verdict" },
+        targetUrl: "https://dev.azure.com/org/project/_git/repo/pullrequest/42",
+      });
+    });
+
+    it("should throw when Azure DevOps rejects the status", async () => {
+      vi.mocked(makeHttpRequest).mockResolvedValue({
+        statusCode: 403,
+        statusMessage: "Forbidden",
+        headers: {},
+        body: "",
+      });
+
+      await expect(
+        setPullRequestStatus(config, { state: "error", description: "x" })
+      ).rejects.toThrow("Failed to set PR status: 403 Forbidden");
+    });
+  });
+});
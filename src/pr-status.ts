@@ -0,0 +1,79 @@
+import { adoRequest } from "./ado-client.js";
+import {
+  AzureConfig,
+  getPullRequestApiUrl,
+  getPullRequestWebUrl,
+} from "./ado-http.js";
+import { ReviewFinding, Severity } from "./findings.js";
+import { getBlockingFindings } from "./quality-gate.js";
+
+export const STATUS_GENRE = "claude-review";
+export const STATUS_NAME = "verdict";
+
+// Findings at or above this severity fail the verdict when --fail-on isn't set
+export const DEFAULT_VERDICT_SEVERITY: Severity = "high";
+
+// Azure DevOps truncates long status descriptions in the PR view
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export type PullRequestStatusState =
+  "pending" | "succeeded" | "failed" | "error";
+
+export interface PullRequestStatus {
+  state: PullRequestStatusState;
+  description: string;
+  targetUrl?: string;
+}
+
+/**
+ * Decide the verdict from the findings that aren't waived in the PR
+ */
+export function buildVerdictStatus(
+  findings: ReviewFinding[],
+  threshold: Severity,
+  waived: ReviewFinding[] = []
+): PullRequestStatus {
+  const blocking = getBlockingFindings(findings, threshold, waived);
+
+  if (blocking.length === 0) {
+    return {
+      state: "succeeded",
+      description: `No findings at or above ${threshold}`,
+    };
+  }
+
+  return {
+    state: "failed",
+    description: `${blocking.length} ${
+      blocking.length === 1 ? "finding" : "findings"
+    } at or above ${threshold}`,
+  };
+}
+
+/**
+ * Set the claude-review/verdict status on the pull request
+ * A newer status with the same context replaces the previous one in the PR view
+ */
+export async function setPullRequestStatus(
+  config: AzureConfig,
+  status: PullRequestStatus
+): Promise<void> {
+  const apiUrl = `${getPullRequestApiUrl(config)}/statuses?api-version=7.1`;
+  const description =
+    status.description.length > MAX_DESCRIPTION_LENGTH
+      ? `${status.description.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+      : status.description;
+
+  const payload = {
+    state: status.state,
+    description,
+    context: { genre: STATUS_GENRE, name: STATUS_NAME },
+    targetUrl: status.targetUrl || getPullRequestWebUrl(config),
+  };
+
+  await adoRequest(config, apiUrl, {
+    action: "set PR status",
+    method: "POST",
+    body: payload,
+  });
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { ReviewFinding, renderFindingMarkdown } from "./findings.js";
+import { finding } from "./fixtures/findings.js";
+import { PullRequestThread } from "./inline-threads.js";
+import {
+  getBlockingFindings,
+  getWaivedFindings,
+  isAtOrAbove,
+} from "./quality-gate.js";
+
+function thread(status: string, posted: ReviewFinding): PullRequestThread {
+  return {
+    id: 7,
+    status,
+    threadContext: {
+      filePath: `/${posted.file}`,
+      rightFileStart: { line: posted.startLine!, offset: 1 },
+      rightFileEnd: { line: posted.endLine!, offset: 1 },
+    },
+    comments: [{ id: 1, content: renderFindingMarkdown(posted) }],
+  };
+}
+
+describe("quality gate", () => {
+  describe("isAtOrAbove", () => {
+    it("should compare severities from most to least severe", () => {
+      expect(isAtOrAbove("critical", "high")).toBe(true);
+      expect(isAtOrAbove("high", "high")).toBe(true);
+      expect(isAtOrAbove("medium", "high")).toBe(false);
+      expect(isAtOrAbove("info", "info")).toBe(true);
+    });
+  });
+
+  describe("getWaivedFindings", () => {
+    it("should read findings from won't fix and by design threads", () => {
+      const posted = finding({ endLine: 12 });
+      const waived = getWaivedFindings([
+        thread("wontFix", posted),
+        thread("active", posted),
+        thread("byDesign", finding({ endLine: 12, title: "Slow loop" })),
+      ]);
+
+      expect(waived).toHaveLength(2);
+      expect(waived[0]).toMatchObject({
+        id: "thread-7",
+        severity: "high",
+        category: "bug",
+        file: "src/app.ts",
+        startLine: 10,
+        endLine: 12,
+        side: "right",
+        title: "Null dereference",
+      });
+      expect(waived[1].title).toBe("Slow loop");
+    });
+
+    it("should skip threads that aren't posted findings", () => {
+      expect(
+        getWaivedFindings([
+          { id: 1, status: "wontFix", comments: [{ id: 1, content: "LGTM" }] },
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe("getBlockingFindings", () => {
+    it("should return findings at or above the threshold", () => {
+      const findings = [
+        finding({ id: "F1", severity: "critical" }),
+        finding({ id: "F2", severity: "medium", title: "Naming" }),
+      ];
+
+      expect(
+        getBlockingFindings(findings, "high").map((item) => item.id)
+      ).toEqual(["F1"]);
+      expect(getBlockingFindings(findings, "low")).toHaveLength(2);
+    });
+
+    it("should leave out findings waived in the PR", () => {
+      const waived = getWaivedFindings([thread("wontFix", finding())]);
+      const findings = [
+        finding({ id: "F1", startLine: 11, endLine: 11 }),
+        finding({ id: "F2", file: "src/other.ts" }),
+      ];
+
+      expect(
+        getBlockingFindings(findings, "high", waived).map((item) => item.id)
+      ).toEqual(["F2"]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { isDuplicateFinding } from "./chunking.js";
+import { ReviewFinding, SEVERITIES, Severity } from "./findings.js";
+import {
+  PullRequestThread,
+  WAIVED_THREAD_STATUSES,
+  parseThreadFinding,
+} from "./inline-threads.js";
+
+/**
+ * Process exit codes, so pipelines can tell the outcomes apart
+ */
+export const EXIT_CODES = {
+  success: 0,
+  reviewFailed: 1,
+  blockingFindings: 2,
+  nothingToReview: 3,
+} as const;
+
+/**
+ * Check whether a severity is at or above a threshold, e.g. high >= medium
+ */
+export function isAtOrAbove(severity: Severity, threshold: Severity): boolean {
+  return SEVERITIES.indexOf(severity) <= SEVERITIES.indexOf(threshold);
+}
+
+/**
+ * Findings from inline threads that were resolved as won't fix or by design
+ */
+export function getWaivedFindings(
+  threads: PullRequestThread[]
+): ReviewFinding[] {
+  return threads
+    .filter((thread) => WAIVED_THREAD_STATUSES.includes(thread.status || ""))
+    .map(parseThreadFinding)
+    .filter((finding): finding is ReviewFinding => finding !== null);
+}
+
+/**
+ * Findings at or above the threshold that haven't been waived in the PR
+ */
+export function getBlockingFindings(
+  findings: ReviewFinding[],
+  failOn: Severity,
+  waived: ReviewFinding[] = []
+): ReviewFinding[] {
+  return findings.filter(
+    (finding) =>
+      isAtOrAbove(finding.severity, failOn) &&
+      !waived.some((waivedFinding) =>
+        isDuplicateFinding(waivedFinding, finding)
+      )
+  );
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  GitObjectType,
+  VersionControlChangeType,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+import { createConnection } from "./ado.js";
+import { GitRemoteInfo } from "./git.js";
+import {
+  FakeAdoServer,
+  createFakeAdoState,
+  startFakeAdoServer,
+} from "./fake-ado.js";
+import {
+  RemoteFileChange,
+  fetchRemotePullRequestDiff,
+  materializeFiles,
+} from "./remote-review.js";
+
+function change(
+  changeType: VersionControlChangeType,
+  filePath: string,
+  ids: { objectId?: string; originalObjectId?: string },
+  gitObjectType: GitObjectType = GitObjectType.Blob
+) {
+  return { changeType, item: { path: filePath, gitObjectType, ...ids } };
+}
+
+describe("remote-review", () => {
+  describe("fetchRemotePullRequestDiff", () => {
+    let fake: FakeAdoServer;
+    let remoteInfo: GitRemoteInfo;
+
+    beforeEach(async () => {
+      fake = await startFakeAdoServer(
+        createFakeAdoState({
+          pullRequests: [
+            {
+              pullRequestId: 42,
+              iterations: [
+                { sourceCommit: "head-1", commonCommit: "base-1" },
+                { sourceCommit: "head-2", commonCommit: "base-2" },
+              ],
+              changes: [
+                change(VersionControlChangeType.Edit, "/src/app.ts", {
+                  objectId: "app-new",
+                  originalObjectId: "app-old",
+                }),
+                change(VersionControlChangeType.Add, "/docs/notes.md", {
+                  objectId: "notes",
+                }),
+                change(VersionControlChangeType.Delete, "/old.txt", {
+                  originalObjectId: "old",
+                }),
+                change(
+                  VersionControlChangeType.Add,
+                  "/src",
+                  { objectId: "tree" },
+                  GitObjectType.Tree
+                ),
+              ],
+            },
+          ],
+          blobs: {
+            "app-old": "const a = 1;\nconst b = 2;\n",
+            "app-new": "const a = 1;\nconst b = a + 1;\n",
+            notes: "# Notes\n",
+            old: "gone\n",
+          },
+        })
+      );
+      remoteInfo = {
+        collectionUrl: fake.url,
+        organization: "contoso",
+        project: "Web App",
+        repository: "web",
+      };
+    });
+
+    afterEach(async () => {
+      await fake.close();
+    });
+
+    it("should build the diff of the latest iteration from the blobs", async () => {
+      const remote = await fetchRemotePullRequestDiff(
+        createConnection(fake.url, "token"),
+        remoteInfo,
+        42
+      );
+
+      expect(remote.pullRequest.pullRequestId).toBe(42);
+      expect(remote.headSha).toBe("head-2");
+      expect(remote.mergeBase).toBe("base-2");
+      expect(remote.files).toEqual([
+        {
+          oldPath: "src/app.ts",
+          newPath: "src/app.ts",
+          oldContent: "const a = 1;\nconst b = 2;\n",
+          newContent: "const a = 1;\nconst b = a + 1;\n",
+          binary: false,
+        },
+        {
+          oldPath: null,
+          newPath: "docs/notes.md",
+          oldContent: "",
+          newContent: "# Notes\n",
+          binary: false,
+        },
+        {
+          oldPath: "old.txt",
+          newPath: null,
+          oldContent: "gone\n",
+          newContent: "",
+          binary: false,
+        },
+      ]);
+      expect(remote.diff).toContain("-const b = 2;\n+const b = a + 1;");
+      expect(remote.diff).toContain("+++ b/docs/notes.md");
+      expect(remote.diff).toContain("--- a/old.txt");
+    });
+  });
+
+  describe("materializeFiles", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-review-remote-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should write the new text files inside the directory only", () => {
+      const file = (
+        newPath: string | null,
+        binary = false
+      ): RemoteFileChange => ({
+        oldPath: "before.ts",
+        newPath,
+        oldContent: "",
+        newContent: `content of ${newPath}`,
+        binary,
+      });
+
+      const written = materializeFiles(
+        [
+          file("src/app.ts"),
+          file(null),
+          file("logo.png", true),
+          file("../outside.ts"),
+        ],
+        tmpDir
+      );
+
+      expect(written).toBe(1);
+      expect(fs.readFileSync(path.join(tmpDir, "src/app.ts"), "utf8")).toBe(
+        "content of src/app.ts"
+      );
+      expect(fs.existsSync(path.join(tmpDir, "logo.png"))).toBe(false);
+      expect(fs.existsSync(path.join(tmpDir, "..", "outside.ts"))).toBe(false);
+    });
+  });
+});
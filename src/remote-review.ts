@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+import * as azdev from "azure-devops-node-api";
+import {
+  GitObjectType,
+  VersionControlChangeType,
+} from "azure-devops-node-api/interfaces/GitInterfaces";
+import type { GitPullRequest } from "azure-devops-node-api/interfaces/GitInterfaces";
+import {
+  getBlobText,
+  getLatestIterationChanges,
+  getPullRequest,
+  hasChangeType,
+} from "./ado.js";
+import { createFileDiff } from "./diff.js";
+import { GitRemoteInfo } from "./git.js";
+
+export interface RemoteFileChange {
+  oldPath: string | null;
+  newPath: string | null;
+  oldContent: string;
+  newContent: string;
+  binary: boolean;
+}
+
+export interface RemotePullRequestDiff {
+  pullRequest: GitPullRequest;
+  headSha: string;
+  mergeBase: string;
+  files: RemoteFileChange[];
+  diff: string;
+}
+
+function isBinary(content: string): boolean {
+  return content.includes("\0");
+}
+
+/**
+ * Build the unified diff of a pull request from Azure DevOps without a local
+ * checkout, using the base and target blob contents of each changed file
+ */
+export async function fetchRemotePullRequestDiff(
+  connection: azdev.WebApi,
+  remoteInfo: GitRemoteInfo,
+  pullRequestId: number
+): Promise<RemotePullRequestDiff> {
+  const pullRequest = await getPullRequest(
+    connection,
+    remoteInfo,
+    pullRequestId
+  );
+  const { iteration, changes } = await getLatestIterationChanges(
+    connection,
+    remoteInfo,
+    pullRequestId
+  );
+
+  const files: RemoteFileChange[] = [];
+
+  for (const change of changes) {
+    const item = change.item;
+    // Only blobs have content to diff (skip folders and submodules)
+    if (!item?.path || item.gitObjectType !== GitObjectType.Blob) {
+      continue;
+    }
+
+    const isAdd = hasChangeType(change, VersionControlChangeType.Add);
+    const isDelete = hasChangeType(change, VersionControlChangeType.Delete);
+    const filePath = item.path.replace(/^\/+/, "");
+    const originalPath = (change.originalPath || item.path).replace(/^\/+/, "");
+
+    const oldContent =
+      !isAdd && item.originalObjectId
+        ? await getBlobText(connection, remoteInfo, item.originalObjectId)
+        : "";
+    const newContent =
+      !isDelete && item.objectId
+        ? await getBlobText(connection, remoteInfo, item.objectId)
+        : "";
+
+    files.push({
+      oldPath: isAdd ? null : originalPath,
+      newPath: isDelete ? null : filePath,
+      oldContent,
+      newContent,
+      binary: isBinary(oldContent) || isBinary(newContent),
+    });
+  }
+
+  const diff = files
+    .map((file) =>
+      file.binary
+        ? `diff --git a/${file.oldPath || file.newPath} b/${file.newPath || file.oldPath}\nBinary files differ`
+        : createFileDiff(
+            file.oldPath,
+            file.newPath,
+            file.oldContent,
+            file.newContent
+          )
+    )
+    .join("\n");
+
+  return {
+    pullRequest,
+    headSha: iteration.sourceRefCommit?.commitId || "",
+    mergeBase:
+      iteration.commonRefCommit?.commitId ||
+      iteration.targetRefCommit?.commitId ||
+      "",
+    files,
+    diff,
+  };
+}
+
+/**
+ * Write the new version of every changed text file into a directory so
+ * Claude's Read and Grep tools can open them
+ */
+export function materializeFiles(
+  files: RemoteFileChange[],
+  directory: string
+): number {
+  let written = 0;
+
+  for (const file of files) {
+    if (!file.newPath || file.binary) {
+      continue;
+    }
+
+    const target = path.resolve(directory, file.newPath);
+    // Never write outside the target directory
+    if (!target.startsWith(path.resolve(directory) + path.sep)) {
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.newContent);
+    written++;
+  }
+
+  return written;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { ReviewFinding, renderFindingMarkdown } from "./findings.js";
+import { PullRequestThread } from "./inline-threads.js";
+import { embedFindingMarker, embedReplyMarker } from "./review-metadata.js";
+import {
+  OPT_OUT_MARKER,
+  buildReplyPrompt,
+  findThreadsAwaitingReply,
+  formatCodeContext,
+} from "./respond.js";
+
+const finding: ReviewFinding = {
+  id: "F1",
+  severity: "high",
+  category: "bug",
+  file: "src/app.ts",
+  startLine: 3,
+  title: "Null dereference",
+  body: "value can be null",
+};
+
+function thread(...replies: string[]): PullRequestThread {
+  return {
+    id: 4,
+    status: "active",
+    threadContext: {
+      filePath: "/src/app.ts",
+      rightFileStart: { line: 3, offset: 1 },
+      rightFileEnd: { line: 3, offset: 10 },
+    },
+    comments: [
+      {
+        id: 1,
+        content: embedFindingMarker(renderFindingMarkdown(finding), {
+          snippet: "abc",
+        }),
+      },
+      ...replies.map((content, index) => ({ id: index + 2, content })),
+    ],
+  };
+}
+
+describe("respond", () => {
+  describe("findThreadsAwaitingReply", () => {
+    it("should find threads whose last comment is a human reply", () => {
+      const waiting = thread("Why is this a problem?");
+      const answered = thread(
+        "Why is this a problem?",
+        embedReplyMarker("Because value can be null.")
+      );
+      const untouched = thread();
+
+      expect(
+        findThreadsAwaitingReply([waiting, answered, untouched], 3)
+      ).toEqual([waiting]);
+    });
+
+    it("should skip threads that reached the reply cap", () => {
+      const capped = thread(
+        "Why?",
+        embedReplyMarker("Because."),
+        "Are you sure?"
+      );
+
+      expect(findThreadsAwaitingReply([capped], 1)).toEqual([]);
+      expect(findThreadsAwaitingReply([capped], 2)).toEqual([capped]);
+    });
+
+    it("should skip opted out, resolved and foreign threads", () => {
+      const optedOut = thread(`Not relevant. ${OPT_OUT_MARKER}`);
+      const resolved = { ...thread("Fixed in abc123"), status: "fixed" };
+      const foreign: PullRequestThread = {
+        id: 5,
+        status: "active",
+        comments: [
+          { id: 1, content: "Please rename this" },
+          { id: 2, content: "Done" },
+        ],
+      };
+
+      expect(
+        findThreadsAwaitingReply([optedOut, resolved, foreign], 3)
+      ).toEqual([]);
+    });
+
+    it("should skip threads that aren't anchored to a line", () => {
+      const unanchored = {
+        ...thread("Why?"),
+        threadContext: { filePath: "/src/app.ts" },
+      };
+
+      expect(findThreadsAwaitingReply([unanchored], 3)).toEqual([]);
+    });
+  });
+
+  describe("formatCodeContext", () => {
+    it("should number the lines and mark the flagged ones", () => {
+      const content = Array.from(
+        { length: 12 },
+        (_, i) => `line ${i + 1}`
+      ).join("\n");
+
+      const context = formatCodeContext(content, 8, 9).split("\n");
+
+      expect(context[0]).toBe("     3 | line 3");
+      expect(context).toContain(">    8 | line 8");
+      expect(context).toContain(">    9 | line 9");
+      expect(context[context.length - 1]).toBe("    12 | line 12");
+    });
+  });
+
+  describe("buildReplyPrompt", () => {
+    it("should include the thread history without markers and the code", () => {
+      const prompt = buildReplyPrompt(
+        thread("Fixed in abc123", embedReplyMarker("Looks good."), "Thanks"),
+        finding,
+        ">    3 | const name = value?.name;"
+      );
+
+      expect(prompt).toContain("### claude-review\n\n**Null dereference**");
+      expect(prompt).toContain("### Developer\n\nFixed in abc123");
+      expect(prompt).toContain("### claude-review\n\nLooks good.");
+      expect(prompt).not.toContain("<!--");
+      expect(prompt).toContain("## Current code at src/app.ts:3");
+      expect(prompt).toContain("const name = value?.name;");
+    });
+
+    it("should label the base version for findings on removed lines", () => {
+      const removed: ReviewFinding = { ...finding, side: "left" };
+
+      expect(buildReplyPrompt(thread("Why?"), removed, "code")).toContain(
+        "## Code before the change at src/app.ts:3"
+      );
+      expect(buildReplyPrompt(thread("Why?"), removed, null)).toContain(
+        "The base version of the file isn't available."
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { ReviewFinding, formatFindingLocation } from "./findings.js";
+import { PullRequestThread, parseThreadFinding } from "./inline-threads.js";
+import { isToolReply, parseFindingMarker } from "./review-metadata.js";
+import { isHumanComment } from "./thread-resolution.js";
+
+// Most replies the tool posts in one thread before leaving it to humans
+export const DEFAULT_MAX_REPLIES = 3;
+
+// Writing this in a thread stops the tool from replying there
+export const OPT_OUT_MARKER = "/claude-review stop";
+
+// Lines of code shown around the flagged lines
+const CONTEXT_LINES = 5;
+
+/**
+ * Find the active finding threads where the last comment is a human reply
+ * Threads that reached the reply cap, contain the opt-out marker or aren't
+ * anchored to a line are skipped
+ */
+export function findThreadsAwaitingReply(
+  threads: PullRequestThread[],
+  maxReplies: number
+): PullRequestThread[] {
+  return threads.filter((thread) => {
+    const comments = (thread.comments || []).filter(
+      (comment) => comment.commentType !== "system"
+    );
+    if (
+      thread.status !== "active" ||
+      !parseFindingMarker(comments[0]?.content || "") ||
+      parseThreadFinding(thread)?.startLine === undefined
+    ) {
+      return false;
+    }
+
+    if (comments.some((comment) => comment.content?.includes(OPT_OUT_MARKER))) {
+      return false;
+    }
+
+    const replies = comments.filter((comment) =>
+      isToolReply(comment.content || "")
+    );
+    const last = comments[comments.length - 1];
+    return (
+      comments.length > 1 && isHumanComment(last) && replies.length < maxReplies
+    );
+  });
+}
+
+/**
+ * Show the code around a finding's lines with line numbers, marking the
+ * flagged lines
+ */
+export function formatCodeContext(
+  content: string,
+  startLine: number,
+  endLine: number = startLine
+): string {
+  const lines = content.split("\n");
+  const from = Math.max(1, startLine - CONTEXT_LINES);
+  const to = Math.min(lines.length, endLine + CONTEXT_LINES);
+
+  const numbered: string[] = [];
+  for (let line = from; line <= to; line++) {
+    const marker = line >= startLine && line <= endLine ? ">" : " ";
+    numbered.push(`${marker} ${String(line).padStart(4)} | ${lines[line - 1]}`);
+  }
+  return numbered.join("\n");
+}
+
+function formatThreadHistory(thread: PullRequestThread): string {
+  return (thread.comments || [])
+    .filter((comment) => comment.commentType !== "system")
+    .map((comment, index) => {
+      const author =
+        index === 0 || isToolReply(comment.content || "")
+          ? "claude-review"
+          : "Developer";
+      const content = (comment.content || "")
+        .replace(/\n*<!-- claude-review-[^>]*-->\n*/g, "")
+        .trim();
+      return `### ${author}\n\n${content}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Build the prompt asking Claude to answer the latest reply in a thread
+ * `code` is the code at the finding's location: the current version, or the
+ * base version for findings on removed lines; null when the file is missing
+ */
+export function buildReplyPrompt(
+  thread: PullRequestThread,
+  finding: ReviewFinding,
+  code: string | null
+): string {
+  const location = formatFindingLocation(finding) || finding.file || "";
+  const isBase = finding.side === "left";
+
+  return `You are claude-review, an automated code reviewer. You flagged an issue in a pull request and a developer replied in the review thread. Write the next reply in the conversation.
+
+- If the developer asks why something is a problem, explain it concretely for this code.
+- If they say it is fixed, check the current code below and confirm or say what is still missing.
+- If they make a good point, acknowledge it; don't insist on a finding that doesn't hold.
+- Keep it short: a few sentences of markdown, no headings, no greeting or sign-off.
+
+## Thread
+
+${formatThreadHistory(thread)}
+
+## ${isBase ? "Code before the change" : "Current code"} at ${location}
+
+${code === null ? (isBase ? "The base version of the file isn't available." : "The file no longer exists.") : `\`\`\`\n${code}\n\`\`\``}`;
+}
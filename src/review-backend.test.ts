@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import {
+  createMessagesApiBackend,
+  parseCliResult,
+  sumBackendResults,
+} from "./review-backend.js";
+
+describe("review backends", () => {
+  describe("parseCliResult", () => {
+    it("should map claude CLI JSON output to a backend result", () => {
+      const result = parseCliResult(
+        JSON.stringify({
+          duration_ms: 1200,
+          total_cost_usd: 0.05,
+          usage: { input_tokens: 100, output_tokens: 20 },
+        })
+      );
+
+      expect(result).toEqual({
+        durationMs: 1200,
+        costUsd: 0.05,
+        usage: { inputTokens: 100, cacheReadInputTokens: 0, outputTokens: 20 },
+      });
+    });
+
+    it("should return null for output without usage", () => {
+      expect(parseCliResult("not json")).toBeNull();
+      expect(parseCliResult("{}")).toBeNull();
+    });
+  });
+
+  describe("sumBackendResults", () => {
+    it("should add up duration, cost and usage", () => {
+      const usage = {
+        inputTokens: 10,
+        cacheReadInputTokens: 5,
+        outputTokens: 2,
+      };
+
+      expect(
+        sumBackendResults([
+          { durationMs: 100, costUsd: 0.5, usage },
+          { durationMs: 50, costUsd: 0.25, usage },
+        ])
+      ).toEqual({
+        durationMs: 150,
+        costUsd: 0.75,
+        usage: { inputTokens: 20, cacheReadInputTokens: 10, outputTokens: 4 },
+      });
+    });
+
+    it("should leave the cost unknown when a run has none", () => {
+      const usage = {
+        inputTokens: 1,
+        cacheReadInputTokens: 0,
+        outputTokens: 1,
+      };
+
+      expect(
+        sumBackendResults([
+          { durationMs: 1, costUsd: 0.5, usage },
+          { durationMs: 1, usage },
+        ]).costUsd
+      ).toBeUndefined();
+    });
+  });
+
+  describe("createMessagesApiBackend", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let tmpDir: string;
+    let requests: { url?: string; headers: any; body: any }[];
+    let status: number;
+
+    beforeEach(async () => {
+      requests = [];
+      status = 200;
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "claude-review-test-"));
+
+      server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          requests.push({
+            url: req.url,
+            headers: req.headers,
+            body: JSON.parse(body),
+          });
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(
+            status === 200
+              ? JSON.stringify({
+                  content: [{ type: "text", text: '{"summary": "ok"}' }],
+                  usage: { input_tokens: 50, output_tokens: 10 },
+                })
+              : '{"error": {"message": "overloaded"}}'
+          );
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should write the response text to the review file", async () => {
+      const reviewFile = path.join(tmpDir, "claude-review.json");
+      const backend = createMessagesApiBackend({ baseUrl, apiKey: "key" });
+
+      const result = await backend.run({
+        prompt: "Review this",
+        model: "sonnet",
+        reviewFile,
+      });
+
+      expect(fs.readFileSync(reviewFile, "utf8")).toBe('{"summary": "ok"}');
+      expect(result?.usage).toEqual({
+        inputTokens: 50,
+        cacheReadInputTokens: 0,
+        outputTokens: 10,
+      });
+      expect(requests[0].url).toBe("/v1/messages");
+      expect(requests[0].headers["x-api-key"]).toBe("key");
+      expect(requests[0].body.model).toBe("claude-sonnet-4-5");
+      expect(requests[0].body.messages).toEqual([
+        { role: "user", content: "Review this" },
+      ]);
+    });
+
+    it("should throw when the API returns an error", async () => {
+      status = 529;
+      const backend = createMessagesApiBackend({ baseUrl, apiKey: "key" });
+
+      await expect(
+        backend.run({
+          prompt: "Review this",
+          reviewFile: path.join(tmpDir, "claude-review.json"),
+        })
+      ).rejects.toThrow("Messages API request failed with status 529");
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { $ } from "execa";
+import { execSync } from "child_process";
+import fs from "fs";
+
+export const BACKEND_NAMES = ["cli", "api"] as const;
+export type BackendName = (typeof BACKEND_NAMES)[number];
+
+export const DEFAULT_API_BASE_URL = "https://api.anthropic.com";
+export const DEFAULT_API_MODEL = "claude-sonnet-4-5";
+export const DEFAULT_API_MAX_TOKENS = 16000;
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Model aliases the claude CLI accepts, mapped to Messages API model names
+ */
+export const MODEL_ALIASES: Record<string, string> = {
+  sonnet: "claude-sonnet-4-5",
+  opus: "claude-opus-4-1",
+  haiku: "claude-haiku-4-5",
+};
+
+export interface BackendUsage {
+  inputTokens: number;
+  cacheReadInputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Result of a single model run, the same for every backend
+ */
+export interface BackendResult {
+  durationMs: number;
+  costUsd?: number;
+  usage: BackendUsage;
+}
+
+export interface BackendRequest {
+  prompt: string;
+  model?: string;
+  // File the review JSON must end up in
+  reviewFile: string;
+}
+
+/**
+ * Runs a review prompt against Claude
+ */
+export interface ReviewBackend {
+  name: BackendName;
+  // Whether Claude can use tools to read the repository and write files
+  hasTools: boolean;
+  run(request: BackendRequest): Promise<BackendResult | null>;
+}
+
+export interface CliBackendOptions {
+  allowedTools: string;
+  maxTurns: number;
+  cwd?: string;
+  addDirs?: string[];
+  log?: (message: string) => void;
+}
+
+export interface ApiBackendOptions {
+  baseUrl: string;
+  apiKey: string;
+  maxTokens?: number;
+}
+
+/**
+ * Add up the duration, cost and usage of several runs
+ * The cost is only known when every run reported one
+ */
+export function sumBackendResults(results: BackendResult[]): BackendResult {
+  const costs = results.map((result) => result.costUsd);
+
+  return {
+    durationMs: results.reduce((total, result) => total + result.durationMs, 0),
+    costUsd: costs.every((cost) => cost !== undefined)
+      ? costs.reduce((total: number, cost) => total + (cost as number), 0)
+      : undefined,
+    usage: {
+      inputTokens: results.reduce(
+        (total, result) => total + result.usage.inputTokens,
+        0
+      ),
+      cacheReadInputTokens: results.reduce(
+        (total, result) => total + result.usage.cacheReadInputTokens,
+        0
+      ),
+      outputTokens: results.reduce(
+        (total, result) => total + result.usage.outputTokens,
+        0
+      ),
+    },
+  };
+}
+
+/**
+ * Find the claude binary on the PATH or in common install locations
+ */
+export function findClaudeBinary(): string {
+  try {
+    return execSync("which claude", { encoding: "utf8" }).trim();
+  } catch (error) {
+    const commonPaths = [
+      process.env.HOME + "/.claude/local/claude",
+      "/usr/local/bin/claude",
+      process.env.HOME + "/.bun/bin/claude",
+      process.env.HOME + "/.local/bin/claude",
+    ];
+
+    return commonPaths.find((path) => fs.existsSync(path)) || "claude";
+  }
+}
+
+/**
+ * Parse the JSON printed by `claude --output-format json`
+ * Returns null when the output has no usage information
+ */
+export function parseCliResult(output: string): BackendResult | null {
+  try {
+    const data = JSON.parse(output);
+    if (!data || typeof data !== "object" || !data.usage) {
+      return null;
+    }
+
+    return {
+      durationMs: data.duration_ms ?? 0,
+      costUsd: data.total_cost_usd,
+      usage: {
+        inputTokens: data.usage.input_tokens ?? 0,
+        cacheReadInputTokens: data.usage.cache_read_input_tokens ?? 0,
+        outputTokens: data.usage.output_tokens ?? 0,
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Backend that runs the claude CLI, which writes the review file itself
+ */
+export function createCliBackend(options: CliBackendOptions): ReviewBackend {
+  const log = options.log || (() => {});
+
+  return {
+    name: "cli",
+    hasTools: true,
+    async run({ prompt, model }) {
+      const claudePath = findClaudeBinary();
+      log(`Using Claude at: ${claudePath}`);
+
+      // Run Claude with JSON output to capture cost and usage metrics
+      const args = [
+        "--allowedTools",
+        options.allowedTools,
+        "--output-format",
+        "json",
+        "--max-turns",
+        String(options.maxTurns),
+      ];
+
+      if (model) {
+        args.push("--model", model);
+      }
+
+      for (const dir of options.addDirs || []) {
+        args.push("--add-dir", dir);
+      }
+
+      log(`Running: ${claudePath} ${args.join(" ")}`);
+
+      // Use execa to properly handle arguments with special characters
+      const result = await $({
+        input: prompt,
+        env: { ...process.env },
+        cwd: options.cwd,
+      })`${claudePath} ${args}`;
+
+      const parsed = parseCliResult(result.stdout);
+      if (!parsed) {
+        log("⚠️  Could not parse Claude metrics from output");
+      }
+      return parsed;
+    },
+  };
+}
+
+/**
+ * Backend that calls the Anthropic Messages API over HTTP
+ * Claude has no tools here, so the response text is written to the review file
+ */
+export function createMessagesApiBackend(
+  options: ApiBackendOptions
+): ReviewBackend {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/v1/messages`;
+
+  return {
+    name: "api",
+    hasTools: false,
+    async run({ prompt, model, reviewFile }) {
+      const started = Date.now();
+      const resolvedModel = model
+        ? MODEL_ALIASES[model] || model
+        : DEFAULT_API_MODEL;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-api-key": options.apiKey,
+            "anthropic-version": ANTHROPIC_VERSION,
+          },
+          body: JSON.stringify({
+            model: resolvedModel,
+            max_tokens: options.maxTokens || DEFAULT_API_MAX_TOKENS,
+            messages: [{ role: "user", content: prompt }],
+          }),
+        });
+      } catch (error) {
+        throw new Error(`Failed to call the Messages API: ${error}`);
+      }
+
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(
+          `Messages API request failed with status ${response.status}: ${text}`
+        );
+      }
+
+      const data = JSON.parse(text);
+      const content = (data.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("");
+      fs.writeFileSync(reviewFile, content);
+
+      return {
+        durationMs: Date.now() - started,
+        usage: {
+          inputTokens: data.usage?.input_tokens ?? 0,
+          cacheReadInputTokens: data.usage?.cache_read_input_tokens ?? 0,
+          outputTokens: data.usage?.output_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
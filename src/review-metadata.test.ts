@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  embedFindingMarker,
+  embedReviewMetadata,
+  parseFindingMarker,
+  parseReviewMetadata,
+  stripReviewMetadata,
+  formatIterationHeading,
+} from "./review-metadata.js";
+
+const metadata = {
+  headSha: "def5678def5678def5678def5678def5678def56",
+  mergeBase: "0123456012345601234560123456012345601234",
+  iteration: 2,
+};
+
+describe("review metadata", () => {
+  it("should round-trip metadata through comment content", () => {
+    const content = embedReviewMetadata(
+      "# Claude Code Review\n\nBody",
+      metadata
+    );
+
+    expect(content).toContain("<!-- claude-review-metadata:");
+    expect(parseReviewMetadata(content)).toEqual(metadata);
+    expect(stripReviewMetadata(content)).toBe("# Claude Code Review\n\nBody");
+  });
+
+  it("should replace existing metadata when embedding again", () => {
+    const first = embedReviewMetadata("Body", metadata);
+    const second = embedReviewMetadata(first, { ...metadata, iteration: 3 });
+
+    expect(second.match(/claude-review-metadata/g)).toHaveLength(1);
+    expect(parseReviewMetadata(second)?.iteration).toBe(3);
+  });
+
+  it("should return null for missing or malformed metadata", () => {
+    expect(parseReviewMetadata("# Claude Code Review")).toBeNull();
+    expect(
+      parseReviewMetadata("<!-- claude-review-metadata: {broken -->")
+    ).toBeNull();
+    expect(
+      parseReviewMetadata('<!-- claude-review-metadata: {"headSha": 1} -->')
+    ).toBeNull();
+  });
+
+  it("should round-trip finding markers through thread content", () => {
+    const content = embedFindingMarker("**Title**\n\nBody", {
+      snippet: "abc123",
+    });
+
+    expect(content).toContain("<!-- claude-review-finding:");
+    expect(parseFindingMarker(content)).toEqual({ snippet: "abc123" });
+    expect(parseFindingMarker("# Claude Code Review")).toBeNull();
+  });
+
+  it("should format iteration headings with short SHAs", () => {
+    expect(
+      formatIterationHeading(2, metadata.mergeBase, metadata.headSha)
+    ).toBe("## Iteration 2 (0123456..def5678)");
+  });
+});
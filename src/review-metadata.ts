@@ -0,0 +1,118 @@
+export interface ReviewMetadata {
+  headSha: string;
+  mergeBase: string;
+  iteration: number;
+}
+
+const METADATA_PATTERN = /\n*<!-- claude-review-metadata: (.*?) -->\n*/;
+
+/**
+ * Append review metadata to a comment as a hidden HTML comment
+ * Any metadata already in the content is replaced
+ */
+export function embedReviewMetadata(
+  content: string,
+  metadata: ReviewMetadata
+): string {
+  return `${stripReviewMetadata(content)}\n\n<!-- claude-review-metadata: ${JSON.stringify(metadata)} -->`;
+}
+
+/**
+ * Read review metadata from a posted comment
+ * Returns null when the comment has no metadata or it can't be parsed
+ */
+export function parseReviewMetadata(content: string): ReviewMetadata | null {
+  const match = content.match(METADATA_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(match[1]);
+    if (
+      typeof data.headSha !== "string" ||
+      typeof data.mergeBase !== "string" ||
+      !Number.isInteger(data.iteration)
+    ) {
+      return null;
+    }
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the hidden metadata block from comment content
+ */
+export function stripReviewMetadata(content: string): string {
+  return content.replace(METADATA_PATTERN, "").trimEnd();
+}
+
+/**
+ * Hidden marker identifying an inline thread posted by this tool
+ * `snippet` is a hash of the flagged lines when the thread was posted and
+ * `fingerprint` identifies the finding across runs
+ */
+export interface FindingMarker {
+  snippet: string;
+  fingerprint?: string;
+}
+
+const FINDING_MARKER_PATTERN = /\n*<!-- claude-review-finding: (.*?) -->\n*/;
+
+/**
+ * Append a finding marker to inline thread content as a hidden HTML comment
+ */
+export function embedFindingMarker(
+  content: string,
+  marker: FindingMarker
+): string {
+  return `${content.replace(FINDING_MARKER_PATTERN, "").trimEnd()}\n\n<!-- claude-review-finding: ${JSON.stringify(marker)} -->`;
+}
+
+/**
+ * Read the finding marker from an inline thread comment
+ * Returns null for comments not posted by this tool as a finding
+ */
+export function parseFindingMarker(content: string): FindingMarker | null {
+  const match = content.match(FINDING_MARKER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(match[1]);
+    return typeof data.snippet === "string" ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+const REPLY_MARKER = "<!-- claude-review-reply -->";
+
+/**
+ * Mark a thread reply as posted by this tool, so it isn't mistaken for a
+ * human reply even when the tool posts with a developer's token
+ */
+export function embedReplyMarker(content: string): string {
+  return `${content.trimEnd()}\n\n${REPLY_MARKER}`;
+}
+
+/**
+ * Check whether a thread reply was posted by this tool
+ */
+export function isToolReply(content: string): boolean {
+  return content.includes(REPLY_MARKER);
+}
+
+/**
+ * Heading for a review section, e.g. "## Iteration 2 (abc1234..def5678)"
+ */
+export function formatIterationHeading(
+  iteration: number,
+  fromSha: string,
+  toSha: string
+): string {
+  return `## Iteration ${iteration} (${fromSha.slice(0, 7)}..${toSha.slice(0, 7)})`;
+}
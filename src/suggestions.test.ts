@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { parseUnifiedDiff } from "./diff.js";
+import { ReviewFinding } from "./findings.js";
+import { finding } from "./fixtures/findings.js";
+import {
+  attachSuggestionBases,
+  formatSuggestionDiff,
+  planSuggestions,
+} from "./suggestions.js";
+
+const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,4 @@
+ const a = 1;
+-const b = 2;
++const b = value.name;
++const d = value.id;
+ const c = 3;
+`;
+
+const source =
+  "const a = 1;\nconst b = value.name;\nconst d = value.id;\nconst c = 3;\n";
+
+// The finding flags line 2 of the diff above and suggests a fix
+function suggestion(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return finding({
+    startLine: 2,
+    suggestion: "const b = value?.name;",
+    ...overrides,
+  });
+}
+
+function prepare(findings: ReviewFinding[]): ReviewFinding[] {
+  return attachSuggestionBases(findings, parseUnifiedDiff(diff));
+}
+
+describe("suggestions", () => {
+  describe("attachSuggestionBases", () => {
+    it("should record the lines a suggestion replaces", () => {
+      const [prepared] = prepare([suggestion({ endLine: 3 })]);
+
+      expect(prepared.originalCode).toBe(
+        "const b = value.name;\nconst d = value.id;"
+      );
+    });
+
+    it("should drop suggestions that can't be anchored", () => {
+      const [left, outside] = prepare([
+        suggestion({ side: "left" }),
+        suggestion({ startLine: 40 }),
+      ]);
+
+      expect(left.suggestion).toBeUndefined();
+      expect(outside.suggestion).toBeUndefined();
+      expect(outside.originalCode).toBeUndefined();
+    });
+  });
+
+  describe("planSuggestions", () => {
+    it("should replace the flagged lines", () => {
+      const plan = planSuggestions(prepare([suggestion()]), () => source);
+
+      expect(plan.results).toEqual([
+        { finding: expect.objectContaining({ id: "F1" }), applied: true },
+      ]);
+      expect(plan.files.get("src/app.ts")?.after).toBe(
+        "const a = 1;\nconst b = value?.name;\nconst d = value.id;\nconst c = 3;\n"
+      );
+    });
+
+    it("should apply several suggestions and deletions in one file", () => {
+      const plan = planSuggestions(
+        prepare([
+          suggestion({ id: "F1", suggestion: "const b = value?.name;\n" }),
+          suggestion({ id: "F2", startLine: 3, suggestion: "" }),
+        ]),
+        () => source
+      );
+
+      expect(plan.files.get("src/app.ts")?.after).toBe(
+        "const a = 1;\nconst b = value?.name;\nconst c = 3;\n"
+      );
+    });
+
+    it("should follow code that moved", () => {
+      const plan = planSuggestions(
+        prepare([suggestion()]),
+        () => `// header\n${source}`
+      );
+
+      expect(plan.results[0].applied).toBe(true);
+      expect(plan.files.get("src/app.ts")?.after).toContain(
+        "// header\nconst a = 1;\nconst b = value?.name;"
+      );
+    });
+
+    it("should reject suggestions that no longer apply cleanly", () => {
+      const changed = planSuggestions(prepare([suggestion()]), () =>
+        source.replace("value.name", "user.name")
+      );
+      const missing = planSuggestions(prepare([suggestion()]), () => null);
+      const overlapping = planSuggestions(
+        prepare([
+          suggestion({ id: "F1", endLine: 3 }),
+          suggestion({ id: "F2", startLine: 3 }),
+        ]),
+        () => source
+      );
+
+      expect(changed.results[0]).toMatchObject({
+        applied: false,
+        reason: "the flagged lines changed since the review",
+      });
+      expect(changed.files.size).toBe(0);
+      expect(missing.results[0].reason).toBe("src/app.ts doesn't exist");
+      expect(overlapping.results.map((result) => result.applied)).toEqual([
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe("formatSuggestionDiff", () => {
+    it("should preview the changes as a unified diff", () => {
+      const plan = planSuggestions(prepare([suggestion()]), () => source);
+
+      const preview = formatSuggestionDiff(plan);
+      expect(preview).toContain("diff --git a/src/app.ts b/src/app.ts");
+      expect(preview).toContain("-const b = value.name;");
+      expect(preview).toContain("+const b = value?.name;");
+    });
+  });
+});
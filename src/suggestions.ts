@@ -0,0 +1,200 @@
+import {
+  DiffFile,
+  createFileDiff,
+  findDiffFile,
+  getRangeLines,
+} from "./diff.js";
+import { ReviewFinding } from "./findings.js";
+
+export interface SuggestionResult {
+  finding: ReviewFinding;
+  applied: boolean;
+  reason?: string;
+}
+
+export interface SuggestionPlan {
+  results: SuggestionResult[];
+  // New content of every file with at least one applied suggestion
+  files: Map<string, { before: string; after: string }>;
+}
+
+interface LocatedSuggestion {
+  finding: ReviewFinding;
+  start: number;
+  length: number;
+  replacement: string[];
+}
+
+/**
+ * Record the lines each suggestion replaces, so it can be checked before
+ * it is applied; suggestions that can't be anchored to right side lines in
+ * the diff are dropped
+ */
+export function attachSuggestionBases(
+  findings: ReviewFinding[],
+  diffFiles: DiffFile[]
+): ReviewFinding[] {
+  return findings.map((finding) => {
+    if (finding.suggestion === undefined) {
+      return finding;
+    }
+
+    const file = finding.file ? findDiffFile(diffFiles, finding.file) : null;
+    const lines =
+      file && finding.startLine !== undefined && finding.side !== "left"
+        ? getRangeLines(
+            file,
+            "right",
+            finding.startLine,
+            Math.max(finding.endLine || finding.startLine, finding.startLine)
+          )
+        : null;
+
+    if (!lines) {
+      const { suggestion, originalCode, ...rest } = finding;
+      return rest;
+    }
+    return { ...finding, originalCode: lines.join("\n") };
+  });
+}
+
+function toLines(code: string): string[] {
+  const trimmed = code.replace(/\n$/, "");
+  return trimmed ? trimmed.split("\n") : [];
+}
+
+function findBlock(lines: string[], block: string[]): number[] {
+  const matches: number[] = [];
+  for (let start = 0; start + block.length <= lines.length; start++) {
+    if (block.every((line, index) => lines[start + index] === line)) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Find where a suggestion applies: at its recorded lines, or where the
+ * original code moved to when it appears exactly once in the file
+ */
+function locateSuggestion(
+  finding: ReviewFinding,
+  lines: string[]
+): LocatedSuggestion | string {
+  if (finding.originalCode === undefined || finding.startLine === undefined) {
+    return "the review didn't record the lines it replaces";
+  }
+
+  const original = finding.originalCode.split("\n");
+  const replacement = toLines(finding.suggestion!);
+  const recorded = finding.startLine - 1;
+
+  if (original.every((line, index) => lines[recorded + index] === line)) {
+    return { finding, start: recorded, length: original.length, replacement };
+  }
+
+  const matches = findBlock(lines, original);
+  if (matches.length === 1) {
+    return { finding, start: matches[0], length: original.length, replacement };
+  }
+  return matches.length === 0
+    ? "the flagged lines changed since the review"
+    : "the flagged lines moved and appear more than once in the file";
+}
+
+/**
+ * Work out the result of applying every suggestion to the working tree
+ * `readFile` returns a file's content, or null when it doesn't exist;
+ * suggestions that no longer apply cleanly or overlap are rejected
+ */
+export function planSuggestions(
+  findings: ReviewFinding[],
+  readFile: (file: string) => string | null
+): SuggestionPlan {
+  const plan: SuggestionPlan = { results: [], files: new Map() };
+  const byFile = new Map<string, ReviewFinding[]>();
+
+  for (const finding of findings) {
+    if (finding.suggestion === undefined) {
+      continue;
+    }
+    if (!finding.file) {
+      plan.results.push({
+        finding,
+        applied: false,
+        reason: "the suggestion has no file",
+      });
+      continue;
+    }
+    byFile.set(finding.file, [...(byFile.get(finding.file) || []), finding]);
+  }
+
+  for (const [file, fileFindings] of byFile) {
+    const before = readFile(file);
+    if (before === null) {
+      for (const finding of fileFindings) {
+        plan.results.push({
+          finding,
+          applied: false,
+          reason: `${file} doesn't exist`,
+        });
+      }
+      continue;
+    }
+
+    const lines = before.split("\n");
+    const located: LocatedSuggestion[] = [];
+
+    for (const finding of fileFindings) {
+      const location = locateSuggestion(finding, lines);
+      if (typeof location === "string") {
+        plan.results.push({ finding, applied: false, reason: location });
+        continue;
+      }
+
+      const overlaps = located.some(
+        (other) =>
+          location.start < other.start + other.length &&
+          other.start < location.start + location.length
+      );
+      if (overlaps) {
+        plan.results.push({
+          finding,
+          applied: false,
+          reason: "it overlaps another suggestion",
+        });
+        continue;
+      }
+
+      located.push(location);
+      plan.results.push({ finding, applied: true });
+    }
+
+    if (located.length === 0) {
+      continue;
+    }
+
+    // Apply from the bottom up so earlier line numbers stay valid
+    for (const suggestion of located.sort((a, b) => b.start - a.start)) {
+      lines.splice(
+        suggestion.start,
+        suggestion.length,
+        ...suggestion.replacement
+      );
+    }
+    plan.files.set(file, { before, after: lines.join("\n") });
+  }
+
+  return plan;
+}
+
+/**
+ * Preview the changes of a plan as a unified diff
+ */
+export function formatSuggestionDiff(plan: SuggestionPlan): string {
+  return [...plan.files]
+    .map(([file, { before, after }]) =>
+      createFileDiff(file, file, before, after)
+    )
+    .join("\n");
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { parseUnifiedDiff } from "./diff.js";
+import { ReviewFinding, renderFindingMarkdown } from "./findings.js";
+import { PullRequestThread, getFindingSnippet } from "./inline-threads.js";
+import { embedFindingMarker, embedReplyMarker } from "./review-metadata.js";
+import { findFixedThreads, hasHumanReplies } from "./thread-resolution.js";
+
+const originalDiff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@
+ const a = 1;
+-const b = 2;
++const b = value.name;
+ const c = 3;
+`;
+
+const fixedDiff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..3333333 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,3 @@
+ const a = 1;
+-const b = 2;
++const b = value?.name;
+ const c = 3;
+`;
+
+const otherDiff = `diff --git a/src/other.ts b/src/other.ts
+index 1111111..2222222 100644
+--- a/src/other.ts
++++ b/src/other.ts
+@@ -1 +1 @@
+-old
++new
+`;
+
+const posted: ReviewFinding = {
+  id: "F1",
+  severity: "high",
+  category: "bug",
+  file: "src/app.ts",
+  startLine: 2,
+  title: "Null dereference",
+  body: "value can be null",
+};
+
+function botThread(
+  overrides: Partial<PullRequestThread> = {}
+): PullRequestThread {
+  const content = embedFindingMarker(renderFindingMarkdown(posted), {
+    snippet: getFindingSnippet(posted, parseUnifiedDiff(originalDiff)),
+  });
+
+  return {
+    id: 5,
+    status: "active",
+    threadContext: {
+      filePath: "/src/app.ts",
+      rightFileStart: { line: 2, offset: 1 },
+      rightFileEnd: { line: 2, offset: 22 },
+    },
+    comments: [{ id: 1, content, author: { id: "bot" } }],
+    ...overrides,
+  };
+}
+
+describe("thread resolution", () => {
+  describe("findFixedThreads", () => {
+    it("should resolve threads whose flagged lines changed", () => {
+      const fixed = findFixedThreads(
+        [botThread()],
+        [],
+        parseUnifiedDiff(fixedDiff),
+        false
+      );
+
+      expect(fixed).toHaveLength(1);
+      expect(fixed[0].threadId).toBe(5);
+      expect(fixed[0].reason).toContain("the flagged lines changed");
+    });
+
+    it("should keep threads whose finding is reported again", () => {
+      expect(
+        findFixedThreads(
+          [botThread()],
+          [{ ...posted, id: "F2" }],
+          parseUnifiedDiff(fixedDiff),
+          false
+        )
+      ).toEqual([]);
+    });
+
+    it("should keep threads whose lines are unchanged", () => {
+      expect(
+        findFixedThreads(
+          [botThread()],
+          [],
+          parseUnifiedDiff(originalDiff),
+          false
+        )
+      ).toEqual([]);
+    });
+
+    it("should resolve threads on files no longer in a full review", () => {
+      const fixed = findFixedThreads(
+        [botThread()],
+        [],
+        parseUnifiedDiff(otherDiff),
+        false
+      );
+
+      expect(fixed[0].reason).toBe(
+        "the file is no longer changed in this pull request"
+      );
+      expect(
+        findFixedThreads([botThread()], [], parseUnifiedDiff(otherDiff), true)
+      ).toEqual([]);
+    });
+
+    it("should leave threads without a marker, replies or an active status", () => {
+      const diffFiles = parseUnifiedDiff(fixedDiff);
+      const unmarked = botThread({
+        comments: [
+          {
+            id: 1,
+            content: renderFindingMarkdown(posted),
+            author: { id: "bot" },
+          },
+        ],
+      });
+      const replied = botThread();
+      replied.comments!.push({
+        id: 2,
+        content: "This is intended",
+        author: { id: "dev" },
+      });
+
+      expect(
+        findFixedThreads(
+          [unmarked, replied, botThread({ status: "wontFix" })],
+          [],
+          diffFiles,
+          false
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe("hasHumanReplies", () => {
+    it("should ignore system comments and replies by this tool", () => {
+      const thread = botThread();
+      thread.comments!.push(
+        { id: 2, content: "status changed", commentType: "system" },
+        { id: 3, content: embedReplyMarker("Follow-up"), author: { id: "bot" } }
+      );
+
+      expect(hasHumanReplies(thread)).toBe(false);
+
+      thread.comments!.push({ id: 4, content: "Done", author: { id: "dev" } });
+      expect(hasHumanReplies(thread)).toBe(true);
+    });
+  });
+});
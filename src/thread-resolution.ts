@@ -0,0 +1,126 @@
+import { isDuplicateFinding } from "./chunking.js";
+import { DiffFile, findDiffFile } from "./diff.js";
+import { ReviewFinding } from "./findings.js";
+import {
+  PullRequestThread,
+  getFindingFingerprint,
+  getRangeSnippet,
+  parseThreadFinding,
+} from "./inline-threads.js";
+import {
+  embedReplyMarker,
+  isToolReply,
+  parseFindingMarker,
+} from "./review-metadata.js";
+
+export interface FixedThread {
+  threadId: number;
+  finding: ReviewFinding;
+  reason: string;
+}
+
+/**
+ * Check whether a comment was written by a person rather than by Azure DevOps
+ * or this tool
+ */
+export function isHumanComment(comment: {
+  content?: string;
+  commentType?: string;
+}): boolean {
+  return (
+    comment.commentType !== "system" && !isToolReply(comment.content || "")
+  );
+}
+
+/**
+ * Check whether anyone replied to the thread
+ */
+export function hasHumanReplies(thread: PullRequestThread): boolean {
+  return (thread.comments || []).slice(1).some(isHumanComment);
+}
+
+/**
+ * Find the active finding threads posted by this tool that are fixed
+ * A thread is fixed when the new review doesn't report its finding again and
+ * the flagged lines changed; an incremental diff only covers the new commits,
+ * so lines missing from it are unchanged rather than fixed
+ */
+export function findFixedThreads(
+  threads: PullRequestThread[],
+  findings: ReviewFinding[],
+  diffFiles: DiffFile[],
+  incremental: boolean
+): FixedThread[] {
+  const fixed: FixedThread[] = [];
+  const fingerprints = new Set(
+    findings.map((finding) => getFindingFingerprint(finding, diffFiles))
+  );
+
+  for (const thread of threads) {
+    const marker = parseFindingMarker(thread.comments?.[0]?.content || "");
+    const finding = parseThreadFinding(thread);
+    if (
+      thread.status !== "active" ||
+      !marker ||
+      !finding ||
+      finding.startLine === undefined ||
+      hasHumanReplies(thread)
+    ) {
+      continue;
+    }
+
+    if (
+      (marker.fingerprint && fingerprints.has(marker.fingerprint)) ||
+      findings.some((item) => isDuplicateFinding(item, finding))
+    ) {
+      continue;
+    }
+
+    const file = findDiffFile(diffFiles, finding.file!);
+    if (!file) {
+      if (!incremental) {
+        fixed.push({
+          threadId: thread.id,
+          finding,
+          reason: "the file is no longer changed in this pull request",
+        });
+      }
+      continue;
+    }
+
+    const snippet = getRangeSnippet(
+      file,
+      finding.side || "right",
+      finding.startLine,
+      finding.endLine
+    );
+    if (snippet === null) {
+      if (!incremental) {
+        fixed.push({
+          threadId: thread.id,
+          finding,
+          reason:
+            "the flagged lines are no longer changed in this pull request",
+        });
+      }
+    } else if (marker.snippet && snippet !== marker.snippet) {
+      fixed.push({
+        threadId: thread.id,
+        finding,
+        reason:
+          "the flagged lines changed and the latest review no longer reports this finding",
+      });
+    }
+  }
+
+  return fixed;
+}
+
+/**
+ * Reply posted to a thread before it is resolved
+ */
+export function formatResolutionReply(reason: string, headSha: string): string {
+  return embedReplyMarker(
+    `✅ Resolved automatically as of ${headSha.slice(0, 7)}: ${reason}.`
+  );
+}
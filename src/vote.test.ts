@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { renderFindingMarkdown } from "./findings.js";
+import { finding } from "./fixtures/findings.js";
+import {
+  VOTES,
+  decideIncrementalVote,
+  decideVote,
+  getOpenThreadFindings,
+} from "./vote.js";
+
+const thresholds = {
+  waitForAuthorOn: "high" as const,
+  suggestionsOn: "low" as const,
+};
+
+describe("vote", () => {
+  describe("decideVote", () => {
+    it("should vote by the most severe finding", () => {
+      expect(decideVote([finding({ severity: "critical" })], thresholds)).toBe(
+        VOTES.waitForAuthor
+      );
+      expect(decideVote([finding({ severity: "medium" })], thresholds)).toBe(
+        VOTES.approveWithSuggestions
+      );
+      expect(decideVote([finding({ severity: "info" })], thresholds)).toBe(
+        VOTES.approve
+      );
+      expect(decideVote([], thresholds)).toBe(VOTES.approve);
+    });
+
+    it("should use the configured thresholds", () => {
+      expect(
+        decideVote([finding({ severity: "medium" })], {
+          waitForAuthorOn: "medium",
+          suggestionsOn: "low",
+        })
+      ).toBe(VOTES.waitForAuthor);
+    });
+
+    it("should ignore waived findings", () => {
+      const blocking = finding();
+
+      expect(decideVote([blocking], thresholds, [blocking])).toBe(
+        VOTES.approve
+      );
+    });
+  });
+
+  describe("decideIncrementalVote", () => {
+    it("should wait for author when new blocking findings appear", () => {
+      expect(
+        decideIncrementalVote([finding()], thresholds, VOTES.approve)
+      ).toBe(VOTES.waitForAuthor);
+    });
+
+    it("should reset a wait for author vote once nothing blocks", () => {
+      expect(decideIncrementalVote([], thresholds, VOTES.waitForAuthor)).toBe(
+        VOTES.none
+      );
+    });
+
+    it("should otherwise keep the current vote", () => {
+      expect(decideIncrementalVote([], thresholds, VOTES.approve)).toBeNull();
+      expect(decideIncrementalVote([], thresholds, null)).toBeNull();
+    });
+  });
+
+  describe("getOpenThreadFindings", () => {
+    it("should read active threads posted by the reviewer", () => {
+      const content = renderFindingMarkdown(finding());
+      const threadContext = {
+        filePath: "/src/app.ts",
+        rightFileStart: { line: 10, offset: 1 },
+        rightFileEnd: { line: 10, offset: 1 },
+      };
+
+      const findings = getOpenThreadFindings(
+        [
+          {
+            id: 1,
+            status: "active",
+            threadContext,
+            comments: [{ id: 1, content, author: { id: "bot" } }],
+          },
+          {
+            id: 2,
+            status: "fixed",
+            threadContext,
+            comments: [{ id: 1, content, author: { id: "bot" } }],
+          },
+          {
+            id: 3,
+            status: "active",
+            threadContext,
+            comments: [{ id: 1, content, author: { id: "someone" } }],
+          },
+        ],
+        "bot"
+      );
+
+      expect(findings.map((item) => item.id)).toEqual(["thread-1"]);
+    });
+  });
+});
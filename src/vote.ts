@@ -0,0 +1,87 @@
+import { ReviewFinding, Severity } from "./findings.js";
+import { PullRequestThread, parseThreadFinding } from "./inline-threads.js";
+import { getBlockingFindings } from "./quality-gate.js";
+
+/**
+ * Azure DevOps reviewer vote values
+ */
+export const VOTES = {
+  approve: 10,
+  approveWithSuggestions: 5,
+  none: 0,
+  waitForAuthor: -5,
+} as const;
+
+export type Vote = (typeof VOTES)[keyof typeof VOTES];
+
+export const VOTE_LABELS: Record<Vote, string> = {
+  10: "approve",
+  5: "approve with suggestions",
+  0: "no vote",
+  [-5]: "wait for author",
+};
+
+export const DEFAULT_WAIT_FOR_AUTHOR_ON: Severity = "high";
+export const DEFAULT_SUGGESTIONS_ON: Severity = "low";
+
+export interface VoteThresholds {
+  // Findings at or above this severity vote wait for author
+  waitForAuthorOn: Severity;
+  // Findings at or above this severity vote approve with suggestions
+  suggestionsOn: Severity;
+}
+
+/**
+ * Pick the vote for a set of findings, leaving out the ones waived in the PR
+ */
+export function decideVote(
+  findings: ReviewFinding[],
+  thresholds: VoteThresholds,
+  waived: ReviewFinding[] = []
+): Vote {
+  if (
+    getBlockingFindings(findings, thresholds.waitForAuthorOn, waived).length
+  ) {
+    return VOTES.waitForAuthor;
+  }
+  if (getBlockingFindings(findings, thresholds.suggestionsOn, waived).length) {
+    return VOTES.approveWithSuggestions;
+  }
+  return VOTES.approve;
+}
+
+/**
+ * Decide the vote of an incremental review, which only sees the new commits
+ * It can ask the author to wait, or reset its own wait for author vote once
+ * nothing blocks, but never approves on its own
+ */
+export function decideIncrementalVote(
+  findings: ReviewFinding[],
+  thresholds: VoteThresholds,
+  currentVote: number | null,
+  waived: ReviewFinding[] = []
+): Vote | null {
+  const vote = decideVote(findings, thresholds, waived);
+
+  if (vote === VOTES.waitForAuthor) {
+    return vote;
+  }
+  return currentVote === VOTES.waitForAuthor ? VOTES.none : null;
+}
+
+/**
+ * Findings from inline threads the reviewer posted that are still open
+ */
+export function getOpenThreadFindings(
+  threads: PullRequestThread[],
+  authorId: string
+): ReviewFinding[] {
+  return threads
+    .filter(
+      (thread) =>
+        thread.status === "active" &&
+        thread.comments?.[0]?.author?.id === authorId
+    )
+    .map(parseThreadFinding)
+    .filter((finding): finding is ReviewFinding => finding !== null);
+}
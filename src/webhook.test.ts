@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import { AddressInfo } from "net";
+import path from "path";
+import {
+  PullRequestEvent,
+  ReviewJob,
+  createJobQueue,
+  createWebhookServer,
+  getCloneDirectory,
+  getCloneUrl,
+  isAuthorized,
+  parsePullRequestEvent,
+} from "./webhook.js";
+
+function loadPayload(name: string): any {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, "fixtures", name), "utf8")
+  );
+}
+
+const created = loadPayload("pull-request-created.json");
+const updated = loadPayload("pull-request-updated.json");
+
+function basicAuth(password: string): string {
+  return `Basic ${Buffer.from(`hook:${password}`).toString("base64")}`;
+}
+
+function event(overrides: Partial<PullRequestEvent> = {}): PullRequestEvent {
+  return {
+    ...(parsePullRequestEvent(created) as PullRequestEvent),
+    ...overrides,
+  };
+}
+
+describe("webhook", () => {
+  describe("parsePullRequestEvent", () => {
+    it("should read the pull request from a recorded payload", () => {
+      expect(parsePullRequestEvent(created)).toEqual({
+        eventType: "git.pullrequest.created",
+        collectionUrl: "https://dev.azure.com/contoso",
+        org: "contoso",
+        project: "Web App",
+        repo: "web",
+        prId: 42,
+        title: "Add login page",
+        sourceRef: "refs/heads/feature/login",
+        targetRef: "refs/heads/main",
+        sourceCommit: "53d54ac915144006c2c9e90d2c7d3880920db49c",
+      });
+      expect(parsePullRequestEvent(updated)).toMatchObject({
+        eventType: "git.pullrequest.updated",
+        sourceCommit: "7c2f0a9b4e13d8f6a2b5c9e0d1f4a7b3c6e9d2f5",
+      });
+    });
+
+    it("should use the collection of Azure DevOps Server payloads", () => {
+      const server = parsePullRequestEvent({
+        ...created,
+        resourceContainers: {
+          account: { baseUrl: "https://tfs.contoso.local/" },
+          collection: { baseUrl: "https://tfs.contoso.local/tfs/Main/" },
+        },
+      }) as PullRequestEvent;
+
+      expect(server.collectionUrl).toBe("https://tfs.contoso.local/tfs/Main");
+      expect(server.org).toBe("Main");
+      expect(getCloneUrl(server)).toBe(
+        "https://tfs.contoso.local/tfs/Main/Web%20App/_git/web"
+      );
+    });
+
+    it("should ignore other events, closed and draft pull requests", () => {
+      expect(parsePullRequestEvent({ ...created, eventType: "git.push" })).toBe(
+        "unsupported event type git.push"
+      );
+      expect(
+        parsePullRequestEvent({
+          ...created,
+          resource: { ...created.resource, status: "completed" },
+        })
+      ).toBe("the pull request is completed");
+      expect(
+        parsePullRequestEvent({
+          ...created,
+          resource: { ...created.resource, isDraft: true },
+        })
+      ).toBe("the pull request is a draft");
+    });
+
+    it("should ignore refs and commits that can't be fetched as they are", () => {
+      const withResource = (overrides: object) =>
+        parsePullRequestEvent({
+          ...created,
+          resource: { ...created.resource, ...overrides },
+        });
+
+      for (const sourceRefName of [
+        "--upload-pack=touch /tmp/pwned",
+        "refs/tags/v1",
+        "refs/heads/main refs/heads/other",
+        "refs/heads/main:refs/heads/other",
+        "refs/heads/a$(touch${IFS}pwned)",
+        "refs/heads/a;reboot",
+        "refs/heads/`id`",
+      ]) {
+        expect(withResource({ sourceRefName })).toBe(
+          "the pull request's branches aren't branch or pull request refs"
+        );
+      }
+      expect(withResource({ targetRefName: "-main" })).toBe(
+        "the pull request's branches aren't branch or pull request refs"
+      );
+      expect(
+        withResource({ lastMergeSourceCommit: { commitId: "--force" } })
+      ).toBe("the pull request's source commit isn't a commit ID");
+      expect(
+        withResource({ sourceRefName: "refs/pull/42/merge" })
+      ).toMatchObject({ sourceRef: "refs/pull/42/merge" });
+    });
+  });
+
+  describe("isAuthorized", () => {
+    it("should compare the Basic password with the secret", () => {
+      expect(isAuthorized(basicAuth("s3cret"), "s3cret")).toBe(true);
+      expect(isAuthorized(basicAuth("wrong"), "s3cret")).toBe(false);
+      expect(isAuthorized("Bearer s3cret", "s3cret")).toBe(false);
+      expect(isAuthorized(undefined, "s3cret")).toBe(false);
+    });
+  });
+
+  describe("getCloneDirectory", () => {
+    it("should keep one clone per repository", () => {
+      expect(getCloneDirectory("/cache", event())).toBe(
+        path.join("/cache", "contoso", "Web_App", "web")
+      );
+    });
+  });
+
+  describe("createJobQueue", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should review a burst of pushes once", async () => {
+      const run = vi.fn().mockResolvedValue(undefined);
+      const queue = createJobQueue(run, 1000);
+
+      const first = queue.enqueue(event());
+      await vi.advanceTimersByTimeAsync(500);
+      const second = queue.enqueue(event({ sourceCommit: "bbb" }));
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run.mock.calls[0][0].event.sourceCommit).toBe("bbb");
+      expect(first.job.status).toBe("superseded");
+      expect(second.job.status).toBe("succeeded");
+    });
+
+    it("should not queue a commit that is already queued or reviewed", async () => {
+      const run = vi.fn().mockResolvedValue(undefined);
+      const queue = createJobQueue(run, 0);
+
+      queue.enqueue(event());
+      await vi.advanceTimersByTimeAsync(0);
+      const again = queue.enqueue(
+        event({ eventType: "git.pullrequest.updated" })
+      );
+
+      expect(again.duplicate).toBe(true);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(queue.list()).toHaveLength(1);
+    });
+
+    it("should run one job at a time and record failures", async () => {
+      let finish: () => void = () => {};
+      const run = vi
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise<void>((resolve) => (finish = resolve))
+        )
+        .mockRejectedValueOnce(new Error("Review exited with code 1"));
+      const queue = createJobQueue(run, 0);
+
+      const first = queue.enqueue(event());
+      await vi.advanceTimersByTimeAsync(0);
+      const second = queue.enqueue(event({ prId: 7 }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(second.job.status).toBe("queued");
+
+      finish();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.job.status).toBe("succeeded");
+      expect(second.job).toMatchObject({
+        status: "failed",
+        error: "Review exited with code 1",
+      });
+    });
+  });
+
+  describe("createWebhookServer", () => {
+    it("should queue replayed payloads and list the jobs", async () => {
+      const run = vi.fn().mockResolvedValue(undefined);
+      const server = createWebhookServer(
+        createJobQueue(run, 60_000),
+        "s3cret",
+        "https://dev.azure.com/contoso"
+      );
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      try {
+        const post = (payload: unknown, password = "s3cret") =>
+          fetch(baseUrl, {
+            method: "POST",
+            headers: {
+              Authorization: basicAuth(password),
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(payload),
+          });
+
+        expect((await post(created, "wrong")).status).toBe(401);
+        const foreign = await post({
+          ...created,
+          resourceContainers: {
+            collection: { baseUrl: "https://attacker.example.com/" },
+          },
+        });
+        expect(foreign.status).toBe(403);
+        expect(await foreign.json()).toEqual({
+          error:
+            "The collection https://attacker.example.com isn't reviewed by this server",
+        });
+        expect((await post(created)).status).toBe(202);
+        expect((await post(created)).status).toBe(200);
+        expect(await (await post({ eventType: "git.push" })).json()).toEqual({
+          ignored: "unsupported event type git.push",
+        });
+
+        const response = await fetch(`${baseUrl}/jobs`, {
+          headers: { Authorization: basicAuth("s3cret") },
+        });
+        const jobs = (await response.json()) as ReviewJob[];
+        expect(jobs).toHaveLength(1);
+        expect(jobs[0]).toMatchObject({ id: 1, status: "queued" });
+        expect(run).not.toHaveBeenCalled();
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { createHash, timingSafeEqual } from "crypto";
+import http from "http";
+import path from "path";
+import {
+  getCollectionName,
+  getCollectionUrlFromApiUrl,
+  parseCollectionUrl,
+} from "./collection-url.js";
+
+// Service hook events that queue a review
+export const PULL_REQUEST_EVENTS = [
+  "git.pullrequest.created",
+  "git.pullrequest.updated",
+];
+
+// Finished jobs kept for the /jobs endpoint
+const MAX_FINISHED_JOBS = 100;
+
+// Largest service hook payload accepted
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Branch and PR refs that can be passed to git and the review as they are
+const FETCHABLE_REF = /^refs\/(heads|pull)\/[\w./-]+$/;
+
+// Full SHA-1 or SHA-256 commit IDs
+const COMMIT_ID = /^([0-9a-f]{40}|[0-9a-f]{64})$/i;
+
+export interface PullRequestEvent {
+  eventType: string;
+  collectionUrl: string;
+  org: string;
+  project: string;
+  repo: string;
+  prId: number;
+  title?: string;
+  sourceRef: string;
+  targetRef: string;
+  sourceCommit: string;
+}
+
+export type JobStatus =
+  "queued" | "running" | "succeeded" | "failed" | "superseded";
+
+export interface ReviewJob {
+  id: number;
+  event: PullRequestEvent;
+  status: JobStatus;
+  queuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export interface JobQueue {
+  // Returns the existing job when the PR's commit is already queued or reviewed
+  enqueue(event: PullRequestEvent): { job: ReviewJob; duplicate: boolean };
+  list(): ReviewJob[];
+}
+
+/**
+ * Read a pull request created or updated service hook payload
+ * Returns the reason when the payload doesn't need a review
+ */
+export function parsePullRequestEvent(payload: any): PullRequestEvent | string {
+  const eventType = payload?.eventType;
+  if (!PULL_REQUEST_EVENTS.includes(eventType)) {
+    return `unsupported event type ${eventType || "(none)"}`;
+  }
+
+  const resource = payload.resource || {};
+  if (resource.status && resource.status !== "active") {
+    return `the pull request is ${resource.status}`;
+  }
+  if (resource.isDraft) {
+    return "the pull request is a draft";
+  }
+
+  const containers = payload.resourceContainers || {};
+  // On Azure DevOps Server the account is the server, not the collection
+  const collectionUrl =
+    parseCollectionUrl(containers.collection?.baseUrl || "") ||
+    getCollectionUrlFromApiUrl(
+      resource.repository?.url || "",
+      resource.repository?.project?.id
+    );
+  const project = resource.repository?.project?.name;
+  const repo = resource.repository?.name;
+  const sourceCommit = resource.lastMergeSourceCommit?.commitId;
+
+  if (
+    !collectionUrl ||
+    !project ||
+    !repo ||
+    !resource.pullRequestId ||
+    !resource.sourceRefName ||
+    !resource.targetRefName ||
+    !sourceCommit
+  ) {
+    return "the payload is missing the repository or pull request details";
+  }
+  if (
+    !FETCHABLE_REF.test(resource.sourceRefName) ||
+    !FETCHABLE_REF.test(resource.targetRefName)
+  ) {
+    return "the pull request's branches aren't branch or pull request refs";
+  }
+  if (!COMMIT_ID.test(sourceCommit)) {
+    return "the pull request's source commit isn't a commit ID";
+  }
+
+  return {
+    eventType,
+    collectionUrl,
+    org: getCollectionName(collectionUrl),
+    project,
+    repo,
+    prId: resource.pullRequestId,
+    title: resource.title,
+    sourceRef: resource.sourceRefName,
+    targetRef: resource.targetRefName,
+    sourceCommit,
+  };
+}
+
+/**
+ * Check the Basic credentials of a request against the shared secret
+ * Service hooks can send any user name, only the password is compared
+ */
+export function isAuthorized(
+  header: string | undefined,
+  secret: string
+): boolean {
+  const match = header?.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+
+  const credentials = Buffer.from(match[1], "base64").toString("utf8");
+  const password = credentials.slice(credentials.indexOf(":") + 1);
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(password), digest(secret));
+}
+
+/**
+ * Build the clone URL of the event's repository
+ */
+export function getCloneUrl(event: PullRequestEvent): string {
+  return `${event.collectionUrl}/${encodeURIComponent(event.project)}/_git/${encodeURIComponent(event.repo)}`;
+}
+
+/**
+ * Directory of the cached clone of the event's repository
+ */
+export function getCloneDirectory(
+  cacheDir: string,
+  event: PullRequestEvent
+): string {
+  const safe = (name: string) => name.replace(/[^\w.-]/g, "_");
+  return path.join(
+    cacheDir,
+    safe(event.org),
+    safe(event.project),
+    safe(event.repo)
+  );
+}
+
+function getPullRequestKey(event: PullRequestEvent): string {
+  return `${event.org}/${event.project}/${event.repo}/${event.prId}`;
+}
+
+/**
+ * Create a queue that runs one review at a time
+ * A job waits `debounceMs` before it starts, and a newer push to the same PR
+ * in that window supersedes it, so a burst of pushes is reviewed once
+ */
+export function createJobQueue(
+  run: (job: ReviewJob) => Promise<void>,
+  debounceMs: number
+): JobQueue {
+  const jobs: ReviewJob[] = [];
+  const runAfter = new Map<number, number>();
+  let nextId = 1;
+  let running = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  function prune(): void {
+    const finished = jobs.filter(
+      (job) => job.status !== "queued" && job.status !== "running"
+    );
+    for (const job of finished.slice(0, -MAX_FINISHED_JOBS)) {
+      jobs.splice(jobs.indexOf(job), 1);
+    }
+  }
+
+  async function start(job: ReviewJob): Promise<void> {
+    running = true;
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+
+    try {
+      await run(job);
+      job.status = "succeeded";
+    } catch (error) {
+      job.status = "failed";
+      job.error = (error as Error).message;
+    }
+
+    job.finishedAt = new Date().toISOString();
+    running = false;
+    prune();
+    pump();
+  }
+
+  function pump(): void {
+    clearTimeout(timer);
+    if (running) {
+      return;
+    }
+
+    const queued = jobs.filter((job) => job.status === "queued");
+    if (queued.length === 0) {
+      return;
+    }
+
+    const next = queued.reduce((a, b) =>
+      runAfter.get(a.id)! <= runAfter.get(b.id)! ? a : b
+    );
+    const wait = runAfter.get(next.id)! - Date.now();
+    if (wait > 0) {
+      timer = setTimeout(pump, wait);
+      return;
+    }
+
+    runAfter.delete(next.id);
+    void start(next);
+  }
+
+  return {
+    enqueue(event) {
+      const key = getPullRequestKey(event);
+      const existing = jobs.find(
+        (job) =>
+          getPullRequestKey(job.event) === key &&
+          job.event.sourceCommit === event.sourceCommit &&
+          ["queued", "running", "succeeded"].includes(job.status)
+      );
+      if (existing) {
+        return { job: existing, duplicate: true };
+      }
+
+      for (const job of jobs) {
+        if (job.status === "queued" && getPullRequestKey(job.event) === key) {
+          job.status = "superseded";
+          job.finishedAt = new Date().toISOString();
+          runAfter.delete(job.id);
+        }
+      }
+
+      const job: ReviewJob = {
+        id: nextId++,
+        event,
+        status: "queued",
+        queuedAt: new Date().toISOString(),
+      };
+      jobs.push(job);
+      runAfter.set(job.id, Date.now() + debounceMs);
+      prune();
+      pump();
+
+      return { job, duplicate: false };
+    },
+
+    list() {
+      return [...jobs].reverse();
+    },
+  };
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  statusCode: number,
+  body: unknown
+): void {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+function readBody(request: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    let tooLarge = false;
+    request.on("data", (chunk: Buffer) => {
+      body += chunk.toString("utf8");
+      if (body.length > MAX_BODY_BYTES) {
+        tooLarge = true;
+        body = "";
+      }
+    });
+    request.on("end", () => resolve(tooLarge ? null : body));
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Create the HTTP server for service hooks
+ * POST / queues a review, GET /jobs and GET /jobs/<id> show the jobs; every
+ * request needs the shared secret as its Basic password
+ * Only pull requests in `collectionUrl` are reviewed, since the job sends the
+ * server's credentials to the payload's collection
+ */
+export function createWebhookServer(
+  queue: JobQueue,
+  secret: string,
+  collectionUrl: string
+): http.Server {
+  return http.createServer(async (request, response) => {
+    if (!isAuthorized(request.headers.authorization, secret)) {
+      response.setHeader("WWW-Authenticate", 'Basic realm="claude-review"');
+      sendJson(response, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    const url = new URL(request.url || "/", "http://localhost");
+
+    if (request.method === "GET" && url.pathname === "/jobs") {
+      sendJson(response, 200, queue.list());
+      return;
+    }
+
+    const jobMatch = url.pathname.match(/^\/jobs\/(\d+)$/);
+    if (request.method === "GET" && jobMatch) {
+      const job = queue
+        .list()
+        .find((candidate) => candidate.id === parseInt(jobMatch[1], 10));
+      if (job) {
+        sendJson(response, 200, job);
+      } else {
+        sendJson(response, 404, { error: "Job not found" });
+      }
+      return;
+    }
+
+    if (request.method !== "POST" || url.pathname !== "/") {
+      sendJson(response, 404, { error: "Not found" });
+      return;
+    }
+
+    try {
+      const body = await readBody(request);
+      if (body === null) {
+        sendJson(response, 413, { error: "Payload too large" });
+        return;
+      }
+
+      const event = parsePullRequestEvent(JSON.parse(body));
+      if (typeof event === "string") {
+        sendJson(response, 200, { ignored: event });
+        return;
+      }
+
+      if (event.collectionUrl.toLowerCase() !== collectionUrl.toLowerCase()) {
+        sendJson(response, 403, {
+          error: `The collection ${event.collectionUrl} isn't reviewed by this server`,
+        });
+        return;
+      }
+
+      const { job, duplicate } = queue.enqueue({ ...event, collectionUrl });
+      sendJson(response, duplicate ? 200 : 202, { job, duplicate });
+    } catch (error) {
+      sendJson(response, 400, {
+        error: `Invalid payload: ${(error as Error).message}`,
+      });
+    }
+  });
+}